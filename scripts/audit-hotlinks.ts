@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/**
+ * Hotlink Audit Script
+ *
+ * Finds Unsplash image and photo page URLs in a project's code and records attributions
+ * for the photos they show, with the file and line of each link.
+ *
+ * Usage:
+ *   npm run audit-hotlinks -- [options]
+ *
+ * Options:
+ *   --project-path <path>   Root of the project [default: current directory]
+ *   --lookup                Record photos missing from the database by looking them up
+ *                           on Unsplash (needs UNSPLASH_ACCESS_KEY)
+ *   --dry-run               Only report what would be recorded
+ *   --help                  Show this help message
+ */
+
+import { AttributionManager, findProjectDatabaseRoot } from '../src/attributionManager.js';
+import { auditHotlinks } from '../src/hotlinkAudit.js';
+import { loadSettings } from '../src/settings.js';
+import path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+let projectPath = process.cwd();
+let lookup = false;
+let dryRun = false;
+
+// Simple argument parser
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg === '--help') {
+    showHelp();
+    process.exit(0);
+  } else if (arg === '--project-path' && i + 1 < args.length) {
+    projectPath = path.resolve(args[++i]);
+  } else if (arg === '--lookup') {
+    lookup = true;
+  } else if (arg === '--dry-run') {
+    dryRun = true;
+  } else {
+    console.error(`Error: Unknown argument '${arg}'`);
+    showHelp();
+    process.exit(1);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('Unsplash Hotlink Audit');
+  console.log('======================');
+
+  // The project's own database if it has one, otherwise the one its settings point at
+  const projectDatabaseRoot = findProjectDatabaseRoot(projectPath);
+  const attributionManager = projectDatabaseRoot
+    ? AttributionManager.forProject(projectDatabaseRoot)
+    : new AttributionManager(loadSettings(projectPath).attributionSettings.databasePath);
+  // Loaded only when needed, since the client requires an access key
+  const unsplashClient = lookup ? new (await import('../src/unsplashClient.js')).UnsplashClient() : undefined;
+
+  const report = await auditHotlinks(attributionManager, projectPath, {
+    lookupPhoto: unsplashClient ? id => unsplashClient.getPhotoById(id) : undefined,
+    dryRun
+  });
+
+  console.log(`Found ${report.found} Unsplash URLs in ${report.sourceFiles} source files in ${report.projectRoot} (database: ${attributionManager.databasePath})`);
+
+  console.log(`Recorded${dryRun ? ' (dry run, not saved)' : ''}: ${report.photos.length}`);
+  report.photos.forEach(photo => {
+    console.log(`  ${photo.id}${photo.added ? ' (new)' : ''}: photo by ${photo.photographer}`);
+    photo.hotlinks.forEach(hotlink => console.log(`    ${hotlink.file}:${hotlink.line}`));
+  });
+
+  console.log(`Unresolved: ${report.unresolved.length}`);
+  report.unresolved.forEach(hotlink => console.log(`  ${hotlink.file}:${hotlink.line} ${hotlink.url}\n    ${hotlink.reason}`));
+
+  if (report.stale.length > 0) {
+    console.log(`No longer linked: ${report.stale.join(', ')}`);
+  }
+}
+
+// Show help message
+function showHelp(): void {
+  console.log(`
+Unsplash Hotlink Audit
+
+Usage:
+  npm run audit-hotlinks -- [options]
+
+Options:
+  --project-path <path>   Root of the project [default: current directory]
+  --lookup                Record photos missing from the database by looking them up
+                          on Unsplash (needs UNSPLASH_ACCESS_KEY)
+  --dry-run               Only report what would be recorded
+  --help                  Show this help message
+`);
+}
+
+// Run the script
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
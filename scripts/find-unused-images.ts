@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+
+/**
+ * Unused Image Finder Script
+ *
+ * Searches a project's source code for references to its attributed images, and lists
+ * downloaded images nothing refers to and referenced images without an attribution record.
+ *
+ * Usage:
+ *   npm run find-unused-images -- [options]
+ *
+ * Options:
+ *   --project-path <path>   Root of the project [default: current directory]
+ *   --remove                Delete unused images and their attribution records
+ *   --help                  Show this help message
+ */
+
+import { AttributionManager, findProjectDatabaseRoot } from '../src/attributionManager.js';
+import { analyzeImageUsage } from '../src/imageUsage.js';
+import { loadSettings } from '../src/settings.js';
+import path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+let projectPath = process.cwd();
+let removeUnused = false;
+
+// Simple argument parser
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg === '--help') {
+    showHelp();
+    process.exit(0);
+  } else if (arg === '--project-path' && i + 1 < args.length) {
+    projectPath = path.resolve(args[++i]);
+  } else if (arg === '--remove') {
+    removeUnused = true;
+  } else {
+    console.error(`Error: Unknown argument '${arg}'`);
+    showHelp();
+    process.exit(1);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('Unsplash Unused Image Finder');
+  console.log('============================');
+
+  // The project's own database if it has one, otherwise the one its settings point at
+  const projectDatabaseRoot = findProjectDatabaseRoot(projectPath);
+  const attributionManager = projectDatabaseRoot
+    ? AttributionManager.forProject(projectDatabaseRoot)
+    : new AttributionManager(loadSettings(projectPath).attributionSettings.databasePath);
+
+  const report = await analyzeImageUsage(attributionManager, projectPath, { removeUnused });
+
+  console.log(`Searched ${report.sourceFiles} source files in ${report.projectRoot} (database: ${attributionManager.databasePath})`);
+  console.log(`Used: ${report.used} of ${report.tracked} attributed images`);
+
+  const unusedBytes = report.unused.reduce((total, image) => total + image.bytes, 0);
+  console.log(`Unused${removeUnused ? ' (removed)' : ''}: ${report.unused.length} (${(unusedBytes / 1024).toFixed(1)} KB)`);
+  report.unused.forEach(image => console.log(`  ${image.file} (${image.id}, photo by ${image.photographer})`));
+
+  console.log(`Referenced without attribution: ${report.unattributed.length}`);
+  report.unattributed.forEach(image => {
+    console.log(`  ${image.file}`);
+    image.references.forEach(reference => console.log(`    ${reference.file}:${reference.line}`));
+  });
+
+  if (report.unused.length > 0 && !removeUnused) {
+    console.log('Run with --remove to delete the unused images and their records.');
+  }
+}
+
+// Show help message
+function showHelp(): void {
+  console.log(`
+Unsplash Unused Image Finder
+
+Usage:
+  npm run find-unused-images -- [options]
+
+Options:
+  --project-path <path>   Root of the project [default: current directory]
+  --remove                Delete unused images and their attribution records
+  --help                  Show this help message
+`);
+}
+
+// Run the script
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -9,18 +9,40 @@
  *   npm run generate-attributions -- [options]
  * 
  * Options:
- *   --format <format>       Output format (json, html, react) [default: html]
+ *   --format <format>       Output format (json, html, markdown, credits, csv, jsonld, react, vue,
+ *                           angular, svelte, web-component) [default: html]
  *   --project-path <path>   Filter attributions to specific project path
+ *   --group-by <key>        Group Markdown and CREDITS output by file, photographer or date
+ *   --sort-by <key>         Order attributions by file, photographer or date [default: file]
+ *   --theme <theme>         HTML theme (light, dark, grid) [default: from settings]
+ *   --template <path>       Custom HTML template replacing the theme
+ *   --page-size <n>         Split the HTML page into pages of n attributions
+ *   --fragment              Write only the HTML attribution section, to embed in another page
  *   --output-path <path>    Where to save attribution files
- *   --extract-metadata      Extract metadata from images in project-path
+ *   --extract-metadata      Recreate attribution records from the metadata embedded in the
+ *                           images in project-path (or the current directory)
+ *   --lookup                With --extract-metadata, fill in details the metadata lacks
+ *                           from Unsplash (needs UNSPLASH_ACCESS_KEY)
  *   --help                  Show this help message
  */
 
-import { AttributionManager } from '../src/attributionManager.js';
+import { AttributionManager, findProjectDatabaseRoot } from '../src/attributionManager.js';
+import { rebuildAttributions } from '../src/attributionRebuilder.js';
 import { MetadataManager } from '../src/metadataManager.js';
+import { loadSettings } from '../src/settings.js';
+import { COMPONENT_FILE_NAMES, COMPONENT_FORMATS, COMPONENT_LABELS, ComponentFormat } from '../src/attributionComponents.js';
+import {
+  ATTRIBUTION_KEYS,
+  AttributionKey,
+  AttributionOrder,
+  EXPORT_FILE_NAMES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  orderAttributions
+} from '../src/attributionExports.js';
+import { HTML_THEMES, HtmlPageOptions, HtmlTheme } from '../src/attributionHtml.js';
 import path from 'path';
 import fs from 'fs-extra';
-import glob from 'glob';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
@@ -28,6 +50,10 @@ let format = 'html';
 let projectPath = '';
 let outputPath = '';
 let extractMetadata = false;
+let lookup = false;
+const order: AttributionOrder = {};
+const htmlOptions: HtmlPageOptions = {};
+let templatePath = '';
 
 // Simple argument parser
 for (let i = 0; i < args.length; i++) {
@@ -38,16 +64,44 @@ for (let i = 0; i < args.length; i++) {
     process.exit(0);
   } else if (arg === '--format' && i + 1 < args.length) {
     format = args[++i];
-    if (!['json', 'html', 'react'].includes(format)) {
-      console.error(`Error: Invalid format '${format}'. Must be one of: json, html, react`);
+    const formats = ['json', 'html', ...EXPORT_FORMATS, ...COMPONENT_FORMATS];
+    if (!formats.includes(format)) {
+      console.error(`Error: Invalid format '${format}'. Must be one of: ${formats.join(', ')}`);
       process.exit(1);
     }
   } else if (arg === '--project-path' && i + 1 < args.length) {
     projectPath = args[++i];
   } else if (arg === '--output-path' && i + 1 < args.length) {
     outputPath = args[++i];
+  } else if ((arg === '--group-by' || arg === '--sort-by') && i + 1 < args.length) {
+    const key = args[++i] as AttributionKey;
+    if (!ATTRIBUTION_KEYS.includes(key)) {
+      console.error(`Error: Invalid ${arg} '${key}'. Must be one of: ${ATTRIBUTION_KEYS.join(', ')}`);
+      process.exit(1);
+    }
+    order[arg === '--group-by' ? 'groupBy' : 'sortBy'] = key;
+  } else if (arg === '--theme' && i + 1 < args.length) {
+    const theme = args[++i] as HtmlTheme;
+    if (!HTML_THEMES.includes(theme)) {
+      console.error(`Error: Invalid theme '${theme}'. Must be one of: ${HTML_THEMES.join(', ')}`);
+      process.exit(1);
+    }
+    htmlOptions.theme = theme;
+  } else if (arg === '--template' && i + 1 < args.length) {
+    templatePath = args[++i];
+  } else if (arg === '--page-size' && i + 1 < args.length) {
+    const pageSize = Number(args[++i]);
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      console.error(`Error: Invalid page size '${args[i]}'. Must be a positive whole number`);
+      process.exit(1);
+    }
+    htmlOptions.pageSize = pageSize;
+  } else if (arg === '--fragment') {
+    htmlOptions.fragment = true;
   } else if (arg === '--extract-metadata') {
     extractMetadata = true;
+  } else if (arg === '--lookup') {
+    lookup = true;
   } else {
     console.error(`Error: Unknown argument '${arg}'`);
     showHelp();
@@ -55,24 +109,29 @@ for (let i = 0; i < args.length; i++) {
   }
 }
 
-// Set up attribution manager with a default path
-const defaultAttributionDir = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.unsplash-mcp');
-const attributionManager = new AttributionManager(defaultAttributionDir);
+// Use the project's own attribution database if it has one, otherwise the one from the settings
+// of the project (or the working directory)
+const settings = loadSettings(projectPath ? path.resolve(projectPath) : process.cwd());
+const projectDatabaseRoot = findProjectDatabaseRoot(projectPath ? path.resolve(projectPath) : process.cwd());
+const attributionManager = projectDatabaseRoot
+  ? AttributionManager.forProject(projectDatabaseRoot)
+  : new AttributionManager(settings.attributionSettings.databasePath);
+const defaultAttributionDir = path.dirname(attributionManager.databasePath);
 
 // Main function
 async function main() {
   console.log('Unsplash Attribution Generator');
   console.log('==============================');
   
-  // Extract metadata from images if requested
-  if (extractMetadata && projectPath) {
-    await extractImagesMetadata(projectPath);
+  // Recreate attribution records from image metadata if requested
+  if (extractMetadata) {
+    await extractImagesMetadata(projectPath || process.cwd());
   }
   
-  // Get attributions
-  const attributions = projectPath 
+  // Get attributions, in the requested order
+  const attributions = orderAttributions(projectPath 
     ? attributionManager.getAttributionsForProject(projectPath)
-    : attributionManager.getAllAttributions();
+    : attributionManager.getAllAttributions(), order);
     
   if (attributions.length === 0) {
     console.log('No attributions found in the database. Have you used the MCP tool to download images?');
@@ -88,15 +147,36 @@ async function main() {
   switch (format) {
     case 'html': {
       const htmlOutputPath = path.join(outputPathBase, 'unsplash-attributions.html');
-      attributionManager.saveAttributionHtml(htmlOutputPath, attributions);
-      console.log(`Generated HTML attribution file at: ${htmlOutputPath}`);
+      const htmlPage = settings.attributionSettings.htmlPage;
+      const template = templatePath || htmlPage.templatePath;
+      const pages = attributionManager.saveAttributionHtml(htmlOutputPath, attributions, {
+        theme: htmlOptions.theme ?? htmlPage.theme,
+        template: template ? fs.readFileSync(template, 'utf8') : undefined,
+        pageSize: htmlOptions.pageSize ?? htmlPage.pageSize,
+        fragment: htmlOptions.fragment ?? htmlPage.fragment
+      });
+      console.log(`Generated HTML attribution ${pages.length > 1 ? `pages (${pages.length})` : 'file'} at: ${htmlOutputPath}`);
       break;
     }
     
-    case 'react': {
-      const reactOutputPath = path.join(outputPathBase, 'ImageAttribution.tsx');
-      attributionManager.generateReactComponent(reactOutputPath);
-      console.log(`Generated React component at: ${reactOutputPath}`);
+    case 'markdown':
+    case 'credits':
+    case 'csv':
+    case 'jsonld': {
+      const exportOutputPath = path.join(outputPathBase, EXPORT_FILE_NAMES[format as ExportFormat]);
+      attributionManager.saveAttributionExport(format as ExportFormat, exportOutputPath, attributions, order);
+      console.log(`Generated ${format} attribution file at: ${exportOutputPath}`);
+      break;
+    }
+    
+    case 'react':
+    case 'vue':
+    case 'angular':
+    case 'svelte':
+    case 'web-component': {
+      const componentOutputPath = path.join(outputPathBase, COMPONENT_FILE_NAMES[format as ComponentFormat]);
+      attributionManager.generateComponent(format as ComponentFormat, componentOutputPath, attributions);
+      console.log(`Generated ${COMPONENT_LABELS[format as ComponentFormat]} at: ${componentOutputPath}`);
       break;
     }
     
@@ -112,36 +192,30 @@ async function main() {
   console.log('Attribution generation complete!');
 }
 
-// Extract metadata from all images in directory
+// Recreate attribution records from the metadata embedded in the images in a directory
 async function extractImagesMetadata(dirPath: string): Promise<void> {
   console.log(`Scanning for images in: ${dirPath}`);
   
-  const metadataManager = new MetadataManager();
+  const metadataManager = new MetadataManager({ formats: settings.attributionSettings.metadataFormats });
+  // Loaded only when needed, since the client requires an access key
+  const unsplashClient = lookup ? new (await import('../src/unsplashClient.js')).UnsplashClient() : undefined;
   
   try {
-    // Find all image files
-    const imageFiles = glob.sync(path.join(dirPath, '**/*.{jpg,jpeg,png,gif}'));
-    console.log(`Found ${imageFiles.length} images.`);
+    const report = await rebuildAttributions(attributionManager, metadataManager, dirPath, {
+      lookupPhoto: unsplashClient ? id => unsplashClient.getPhotoById(id) : undefined
+    });
+    console.log(`Found ${report.scanned} images.`);
     
-    // Extract metadata from each image
-    for (const imagePath of imageFiles) {
-      try {
-        const metadata = await metadataManager.extractAttributionMetadata(imagePath);
-        
-        // If we found attribution data in metadata, log it
-        if (metadata.identifier) {
-          console.log(`Found attribution data in: ${path.relative(dirPath, imagePath)}`);
-        }
-      } catch (error) {
-        console.error(`Error processing ${imagePath}:`, error);
-      }
+    report.added.forEach(image => console.log(`Recorded ${image.id} from: ${image.file}${image.lookedUp ? ' (details from Unsplash)' : ''}`));
+    if (report.existing > 0) {
+      console.log(`Already recorded: ${report.existing}`);
     }
-    
-    // Clean up
-    await metadataManager.close();
-    
+    report.incomplete.forEach(image => console.warn(`Could not record ${image.file}: ${image.reason}`));
+    report.unreadable.forEach(failure => console.error(`Error processing ${failure.file}: ${failure.error}`));
   } catch (error) {
     console.error('Error scanning images:', error);
+  } finally {
+    await metadataManager.close();
   }
 }
 
@@ -154,10 +228,20 @@ Usage:
   npm run generate-attributions -- [options]
 
 Options:
-  --format <format>       Output format (json, html, react) [default: html]
+  --format <format>       Output format (json, html, markdown, credits, csv, jsonld,
+                          react, vue, angular, svelte, web-component) [default: html]
   --project-path <path>   Filter attributions to specific project path
+  --group-by <key>        Group Markdown and CREDITS output by file, photographer or date
+  --sort-by <key>         Order attributions by file, photographer or date [default: file]
+  --theme <theme>         HTML theme (light, dark, grid) [default: from settings]
+  --template <path>       Custom HTML template replacing the theme
+  --page-size <n>         Split the HTML page into pages of n attributions
+  --fragment              Write only the HTML attribution section, to embed in another page
   --output-path <path>    Where to save attribution files
-  --extract-metadata      Extract metadata from images in project-path
+  --extract-metadata      Recreate attribution records from the metadata embedded in the
+                          images in project-path (or the current directory)
+  --lookup                With --extract-metadata, fill in details the metadata lacks
+                          from Unsplash (needs UNSPLASH_ACCESS_KEY)
   --help                  Show this help message
 `);
 }
@@ -0,0 +1,51 @@
+#!/usr/bin/env tsx
+
+/**
+ * Mock Unsplash Server
+ *
+ * Starts a local stand-in for the Unsplash API with fixture photos and images,
+ * so the MCP server can run without network access or an API key.
+ *
+ * Usage:
+ *   npm run mock-server -- [--port <port>] [--host <host>] [--rate-limit <n>]
+ *
+ * Then start the MCP server with UNSPLASH_API_URL pointing at the printed URL.
+ */
+
+import { startMockUnsplashServer } from '../src/mockUnsplashServer.js';
+
+const args = process.argv.slice(2);
+let port = Number(process.env.MOCK_UNSPLASH_PORT) || 4010;
+let host = '127.0.0.1';
+let rateLimit = 5000;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg === '--port' && i + 1 < args.length) {
+    port = Number(args[++i]);
+  } else if (arg === '--host' && i + 1 < args.length) {
+    host = args[++i];
+  } else if (arg === '--rate-limit' && i + 1 < args.length) {
+    rateLimit = Number(args[++i]);
+  } else {
+    console.error(`Error: Unknown argument '${arg}'`);
+    process.exit(1);
+  }
+}
+
+startMockUnsplashServer({ port, host, rateLimit })
+  .then(mock => {
+    console.log(`Mock Unsplash API listening at ${mock.url}`);
+    console.log(`Run the MCP server with: UNSPLASH_API_URL=${mock.url}`);
+
+    const shutdown = () => {
+      mock.close().finally(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  })
+  .catch(error => {
+    console.error('Error starting mock server:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+
+/**
+ * Attribution Reconciliation Script
+ *
+ * Checks attribution records against the images in a project. Moved or renamed images are
+ * found by their embedded Unsplash metadata or content hash and their records updated;
+ * missing images and Unsplash images without a record are listed.
+ *
+ * Usage:
+ *   npm run reconcile-attributions -- [options]
+ *
+ * Options:
+ *   --project-path <path>   Root of the project [default: current directory]
+ *   --dry-run               Only report what would change
+ *   --help                  Show this help message
+ */
+
+import { AttributionManager, findProjectDatabaseRoot } from '../src/attributionManager.js';
+import { reconcileAttributions } from '../src/attributionReconciler.js';
+import { MetadataManager } from '../src/metadataManager.js';
+import { loadSettings } from '../src/settings.js';
+import path from 'path';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+let projectPath = process.cwd();
+let dryRun = false;
+
+// Simple argument parser
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg === '--help') {
+    showHelp();
+    process.exit(0);
+  } else if (arg === '--project-path' && i + 1 < args.length) {
+    projectPath = path.resolve(args[++i]);
+  } else if (arg === '--dry-run') {
+    dryRun = true;
+  } else {
+    console.error(`Error: Unknown argument '${arg}'`);
+    showHelp();
+    process.exit(1);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('Unsplash Attribution Reconciliation');
+  console.log('===================================');
+
+  // The project's own database if it has one, otherwise the one its settings point at
+  const projectDatabaseRoot = findProjectDatabaseRoot(projectPath);
+  const attributionManager = projectDatabaseRoot
+    ? AttributionManager.forProject(projectDatabaseRoot)
+    : new AttributionManager(loadSettings(projectPath).attributionSettings.databasePath);
+  const metadataManager = new MetadataManager();
+
+  try {
+    const report = await reconcileAttributions(attributionManager, metadataManager, projectPath, { dryRun });
+
+    console.log(`Scanned ${report.scanned} images in ${report.projectRoot} (database: ${attributionManager.databasePath})`);
+    console.log(`In place: ${report.unchanged}`);
+
+    console.log(`Moved${dryRun ? ' (dry run, not updated)' : ''}: ${report.moved.length}`);
+    report.moved.forEach(image => console.log(`  ${image.id}: ${image.from} -> ${image.to} (by ${image.matchedBy})`));
+
+    console.log(`Missing: ${report.missing.length}`);
+    report.missing.forEach(image => console.log(`  ${image.id}: ${image.file} (photo by ${image.photographer})`));
+
+    console.log(`Untracked: ${report.untracked.length}`);
+    report.untracked.forEach(image => console.log(`  ${image.file}: ${image.photoId ?? image.sourceUrl}`));
+
+    report.unreadable.forEach(failure => console.warn(`Could not read metadata from ${failure.file}: ${failure.error}`));
+  } finally {
+    await metadataManager.close();
+  }
+}
+
+// Show help message
+function showHelp(): void {
+  console.log(`
+Unsplash Attribution Reconciliation
+
+Usage:
+  npm run reconcile-attributions -- [options]
+
+Options:
+  --project-path <path>   Root of the project [default: current directory]
+  --dry-run               Only report what would change
+  --help                  Show this help message
+`);
+}
+
+// Run the script
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
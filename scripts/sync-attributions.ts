@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+/**
+ * Attribution Sync Script
+ *
+ * Merges attributions between the global database and a project's own
+ * .unsplash/attributions.json, which can be committed with the project.
+ *
+ * Usage:
+ *   npm run sync-attributions -- [options]
+ *
+ * Options:
+ *   --project-path <path>   Root of the project [default: current directory]
+ *   --direction <dir>       pull (global to project), push (project to global) or both [default: both]
+ *   --help                  Show this help message
+ */
+
+import { AttributionManager, PROJECT_DATABASE_PATH } from '../src/attributionManager.js';
+import { loadSettings } from '../src/settings.js';
+import path from 'path';
+
+const DIRECTIONS = ['pull', 'push', 'both'];
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+let projectPath = process.cwd();
+let direction = 'both';
+
+// Simple argument parser
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg === '--help') {
+    showHelp();
+    process.exit(0);
+  } else if (arg === '--project-path' && i + 1 < args.length) {
+    projectPath = path.resolve(args[++i]);
+  } else if (arg === '--direction' && i + 1 < args.length) {
+    direction = args[++i];
+    if (!DIRECTIONS.includes(direction)) {
+      console.error(`Error: Invalid direction '${direction}'. Must be one of: ${DIRECTIONS.join(', ')}`);
+      process.exit(1);
+    }
+  } else {
+    console.error(`Error: Unknown argument '${arg}'`);
+    showHelp();
+    process.exit(1);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log('Unsplash Attribution Sync');
+  console.log('=========================');
+
+  const settings = loadSettings(projectPath);
+  const globalDatabase = path.resolve(settings.attributionSettings.databasePath);
+  const projectDatabase = path.join(projectPath, PROJECT_DATABASE_PATH);
+
+  if (globalDatabase === projectDatabase) {
+    console.log(`The settings for ${projectPath} already use ${projectDatabase} as the attribution database. Nothing to sync.`);
+    return;
+  }
+
+  const globalAttributions = new AttributionManager(globalDatabase);
+  const projectAttributions = AttributionManager.forProject(projectPath);
+
+  if (direction !== 'push') {
+    const pulled = await projectAttributions.mergeFrom(globalAttributions, globalAttributions.getAttributionsForProject(projectPath));
+    console.log(`Pulled into ${projectAttributions.databasePath}: ${pulled.added} added, ${pulled.updated} updated, ${pulled.unchanged} unchanged`);
+  }
+
+  if (direction !== 'pull') {
+    const pushed = await globalAttributions.mergeFrom(projectAttributions);
+    console.log(`Pushed into ${globalAttributions.databasePath}: ${pushed.added} added, ${pushed.updated} updated, ${pushed.unchanged} unchanged`);
+  }
+}
+
+// Show help message
+function showHelp(): void {
+  console.log(`
+Unsplash Attribution Sync
+
+Usage:
+  npm run sync-attributions -- [options]
+
+Options:
+  --project-path <path>   Root of the project [default: current directory]
+  --direction <dir>       pull (global to project), push (project to global) or both [default: both]
+  --help                  Show this help message
+`);
+}
+
+// Run the script
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
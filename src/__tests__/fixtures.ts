@@ -0,0 +1,39 @@
+import type { TestContext } from 'node:test';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Photo } from '../unsplashTypes.js';
+
+/**
+ * Just enough of an Unsplash photo to download and attribute, with fields overridden as given
+ */
+export function fakePhoto(id: string, overrides: Record<string, unknown> = {}): Photo {
+  return {
+    id,
+    user: { name: `Photographer ${id}`, username: id },
+    links: { html: `https://unsplash.com/photos/${id}` },
+    urls: {
+      raw: `https://images.unsplash.com/photo-${id}`,
+      thumb: `https://images.unsplash.com/photo-${id}?w=200`
+    },
+    ...overrides
+  } as unknown as Photo;
+}
+
+/**
+ * A fresh temporary directory for every subtest of a test, removed again after each.
+ * Returns a function giving the current subtest's directory.
+ */
+export function useTempDir(t: TestContext, prefix: string): () => string {
+  let dir = '';
+
+  t.beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), `${prefix}-`));
+  });
+
+  t.afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  return () => dir;
+}
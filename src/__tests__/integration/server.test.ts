@@ -2,10 +2,15 @@ import test from 'node:test';
 import assert from 'node:assert';
 import fs from 'fs-extra';
 import path from 'path';
-import { UnsplashClient } from '../../unsplashClient.js';
+import { UnsplashClient, applyImageOptions } from '../../unsplashClient.js';
 // Create our own FastMCPServer mock class for testing
 import { UserError } from 'fastmcp';
 import { config } from '../../config.js';
+import { startMockUnsplashServer, FIXTURE_JPEG, FIXTURE_PNG } from '../../mockUnsplashServer.js';
+import { ResponseCache } from '../../responseCache.js';
+import { ImageVerificationError } from '../../imageFile.js';
+import { searchWithConstraints, byLikes } from '../../photoSearch.js';
+import os from 'os';
 
 // Simple mock of the FastMCPServer class for testing
 class FastMCPServer {
@@ -24,6 +29,9 @@ class FastMCPServer {
 // Create a separate test directory for downloads
 const TEST_DOWNLOAD_DIR = path.join(process.cwd(), 'downloads-test');
 
+// Base URL of the mock Unsplash API, set once the mock server has started
+let mockApiUrl = '';
+
 // Define interface for the stock_photo tool arguments
 interface StockPhotoArgs {
   query?: string;
@@ -64,7 +72,7 @@ const mockServer = new FastMCPServer("Unsplash MCP Server");
 const stockPhotoTool = {
   name: 'stock_photo',
   execute: async (args: StockPhotoArgs, context: MockContext) => {
-    const unsplashClient = new UnsplashClient();
+    const unsplashClient = new UnsplashClient({ apiUrl: mockApiUrl });
     
     // Default arguments
     const query = args.query || 'professional background';
@@ -80,7 +88,7 @@ const stockPhotoTool = {
         ? `${query} ${args.orientation}` 
         : query;
       
-      const results = await unsplashClient.searchPhotos(searchQuery, 1, Math.max(count * 3, 30));
+      const results = await unsplashClient.searchPhotos(searchQuery, { perPage: 30 });
       
       if (results.total === 0) {
         return JSON.stringify({
@@ -210,9 +218,14 @@ mockServer.addTool(attributionTool);
 test('Unsplash MCP Server Integration Tests', async (t) => {
   let unsplashClient: UnsplashClient;
 
+  // Run every test against the local mock Unsplash API
+  const mockUnsplash = await startMockUnsplashServer();
+  mockApiUrl = mockUnsplash.url;
+  t.after(() => mockUnsplash.close());
+
   t.beforeEach(async () => {
     // Create a fresh UnsplashClient for each test
-    unsplashClient = new UnsplashClient();
+    unsplashClient = new UnsplashClient({ apiUrl: mockApiUrl });
     
     // Ensure the test download directory exists and is empty
     await fs.emptyDir(TEST_DOWNLOAD_DIR);
@@ -318,6 +331,290 @@ test('Unsplash MCP Server Integration Tests', async (t) => {
     assert.ok(parsedResult.download_commands[0].includes('curl -o'));
   });
 
+  await t.test('should download fixture images from the mock server', async () => {
+    const results = await unsplashClient.searchPhotos('office');
+    assert.ok(results.total > 0);
+
+    const photo = await unsplashClient.getPhotoById(results.results[0].id);
+    const filePath = await unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'office_test');
+
+    const contents = await fs.readFile(filePath);
+    assert.ok(contents.equals(FIXTURE_JPEG), 'Downloaded bytes should match the fixture image');
+    assert.strictEqual(path.basename(filePath), 'office_test.jpg');
+  });
+
+  await t.test('should name downloads after the format actually served', async () => {
+    const photo = await unsplashClient.getPhotoById('mock-photo-1');
+
+    // A name that already carries an extension must not end up as .jpg.jpg
+    const jpegPath = await unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'hero_1.jpg');
+    assert.strictEqual(path.basename(jpegPath), 'hero_1.jpg');
+
+    const pngUrl = applyImageOptions(photo.urls.full, { width: 800, format: 'png', quality: 80 });
+    const url = new URL(pngUrl);
+    assert.strictEqual(url.searchParams.get('fm'), 'png');
+    assert.strictEqual(url.searchParams.get('q'), '80');
+    assert.strictEqual(url.searchParams.get('fit'), 'max');
+
+    const pngPath = await unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'hero_2.jpg', pngUrl);
+    assert.strictEqual(path.basename(pngPath), 'hero_2.png');
+    assert.ok((await fs.readFile(pngPath)).equals(FIXTURE_PNG));
+
+    // The mock serves JPEG for AVIF requests, so the file must be named .jpg
+    const avifUrl = applyImageOptions(photo.urls.full, { format: 'avif' });
+    const avifPath = await unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'hero_3.avif', avifUrl);
+    assert.strictEqual(path.basename(avifPath), 'hero_3.jpg');
+  });
+
+  await t.test('should not replace a file of the served format unless asked', async () => {
+    const photo = await unsplashClient.getPhotoById('mock-photo-1');
+    const pngUrl = applyImageOptions(photo.urls.full, { format: 'png' });
+    const existing = path.join(TEST_DOWNLOAD_DIR, 'hero.png');
+    await fs.outputFile(existing, 'earlier image');
+
+    // Requested as .jpg, but served as PNG
+    await assert.rejects(unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'hero.jpg', pngUrl), /"hero.png" already exists/);
+    assert.strictEqual(await fs.readFile(existing, 'utf8'), 'earlier image');
+    assert.deepStrictEqual((await fs.readdir(TEST_DOWNLOAD_DIR)).sort(), ['hero.png']);
+
+    await unsplashClient.downloadPhoto(photo, TEST_DOWNLOAD_DIR, 'hero.jpg', pngUrl, undefined, { overwrite: true });
+    assert.ok((await fs.readFile(existing)).equals(FIXTURE_PNG));
+  });
+
+  await t.test('should resume interrupted downloads with a Range request', async () => {
+    const flakyUnsplash = await startMockUnsplashServer({ droppedImages: 1 });
+    const downloadDir = path.join(TEST_DOWNLOAD_DIR, 'resume');
+    try {
+      // Without retries the dropped connection fails the call but keeps the partial file
+      const noRetries = new UnsplashClient({ apiUrl: flakyUnsplash.url, maxRetries: 0 });
+      const photo = await noRetries.getPhotoById('mock-photo-2');
+      await assert.rejects(noRetries.downloadPhoto(photo, downloadDir, 'trail'));
+
+      const [partial] = await fs.readdir(downloadDir);
+      assert.ok(partial.endsWith('.part'));
+      assert.strictEqual((await fs.stat(path.join(downloadDir, partial))).size, FIXTURE_JPEG.length / 2);
+
+      const client = new UnsplashClient({ apiUrl: flakyUnsplash.url, retryBaseDelayMs: 1 });
+      const filePath = await client.downloadPhoto(photo, downloadDir, 'trail');
+
+      assert.ok((await fs.readFile(filePath)).equals(FIXTURE_JPEG));
+      // Only the verified image is left, no partial files
+      assert.deepStrictEqual(await fs.readdir(downloadDir), ['trail.jpg']);
+    } finally {
+      await flakyUnsplash.close();
+    }
+  });
+
+  await t.test('should reject truncated images without leaving files behind', async () => {
+    const brokenUnsplash = await startMockUnsplashServer({ corruptImages: 10 });
+    const downloadDir = path.join(TEST_DOWNLOAD_DIR, 'corrupt');
+    try {
+      const client = new UnsplashClient({ apiUrl: brokenUnsplash.url, maxRetries: 1, retryBaseDelayMs: 1 });
+      const photo = await client.getPhotoById('mock-photo-2');
+
+      await assert.rejects(client.downloadPhoto(photo, downloadDir, 'trail'), ImageVerificationError);
+      assert.deepStrictEqual(await fs.readdir(downloadDir), []);
+    } finally {
+      await brokenUnsplash.close();
+    }
+  });
+
+  await t.test('should stop a cancelled download and remove the partial file', async () => {
+    const slowUnsplash = await startMockUnsplashServer({ imageDelayMs: 2000 });
+    const downloadDir = path.join(TEST_DOWNLOAD_DIR, 'cancelled');
+    try {
+      const client = new UnsplashClient({ apiUrl: slowUnsplash.url, retryBaseDelayMs: 1 });
+      const photo = await client.getPhotoById('mock-photo-2');
+
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      const started = Date.now();
+      await assert.rejects(client.downloadPhoto(photo, downloadDir, 'trail', undefined, controller.signal));
+      assert.ok(Date.now() - started < 1500, 'Download should stop without waiting for the image');
+      assert.deepStrictEqual(await fs.readdir(downloadDir), []);
+
+      // Searches take the signal too
+      await assert.rejects(client.searchPhotos('nature', {}, AbortSignal.abort()));
+    } finally {
+      await slowUnsplash.close();
+    }
+  });
+
+  await t.test('should rewrite Unsplash image URLs to the configured image host', () => {
+    const client = new UnsplashClient({ apiUrl: mockApiUrl, imageUrl: `${mockApiUrl}/images` });
+    assert.strictEqual(
+      client.resolveImageUrl('https://images.unsplash.com/photo-123?w=400'),
+      `${mockApiUrl}/images/photo-123?w=400`
+    );
+    assert.strictEqual(
+      client.resolveImageUrl('https://example.com/photo-123.jpg'),
+      'https://example.com/photo-123.jpg'
+    );
+  });
+
+  await t.test('should retry server errors and track the rate limit', async () => {
+    const flakyUnsplash = await startMockUnsplashServer({ serverErrors: 2, rateLimit: 10 });
+    try {
+      const client = new UnsplashClient({ apiUrl: flakyUnsplash.url, retryBaseDelayMs: 1 });
+      const results = await client.searchPhotos('nature', { perPage: 5 });
+      assert.ok(results.total > 0);
+
+      const quota = client.getRateLimitStatus();
+      assert.strictEqual(quota.limit, 10);
+      assert.strictEqual(quota.remaining, 9);
+      assert.ok(quota.resetAt);
+    } finally {
+      await flakyUnsplash.close();
+    }
+  });
+
+  await t.test('should fail fast with a UserError once the rate limit is exhausted', async () => {
+    const limitedUnsplash = await startMockUnsplashServer({ rateLimit: 1 });
+    try {
+      const client = new UnsplashClient({ apiUrl: limitedUnsplash.url, retryBaseDelayMs: 1 });
+      await client.searchPhotos('nature', { perPage: 5 });
+      assert.strictEqual(client.getRateLimitStatus().remaining, 0);
+
+      await assert.rejects(() => client.getPhotoById('mock-photo-1'), UserError);
+    } finally {
+      await limitedUnsplash.close();
+    }
+  });
+
+  await t.test('should serve repeated searches from the response cache', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-client-cache-'));
+    try {
+      const cache = new ResponseCache(cacheDir, { ttlSeconds: 60, maxEntries: 10, maxBytes: 1024 * 1024 });
+      const client = new UnsplashClient({ apiUrl: mockApiUrl, cache });
+
+      const first = await client.searchPhotos('office', { perPage: 5 });
+      const remainingAfterFirst = client.getRateLimitStatus().remaining;
+      const second = await client.searchPhotos('office', { perPage: 5 });
+
+      assert.deepStrictEqual(second, first);
+      assert.strictEqual(client.getRateLimitStatus().remaining, remainingAfterFirst);
+      assert.strictEqual((await cache.getStats()).hits, 1);
+    } finally {
+      await fs.remove(cacheDir);
+    }
+  });
+
+  await t.test('should pass native search filters to the API', async () => {
+    const results = await unsplashClient.searchPhotos('a', { orientation: 'portrait', orderBy: 'latest', perPage: 30 });
+
+    assert.ok(results.results.length > 0);
+    assert.ok(results.results.every(photo => photo.height > photo.width));
+  });
+
+  await t.test('should fetch random photos and photo statistics', async () => {
+    const photos = await unsplashClient.getRandomPhotos({ query: 'office', count: 2 });
+    assert.strictEqual(photos.length, 2);
+
+    const single = await unsplashClient.getRandomPhotos({ orientation: 'portrait' });
+    assert.strictEqual(single.length, 1);
+    assert.ok(single[0].height > single[0].width);
+
+    const stats = await unsplashClient.getPhotoStatistics(photos[0].id, 7);
+    assert.strictEqual(stats.id, photos[0].id);
+    assert.strictEqual(stats.downloads.historical.values.length, 7);
+    assert.ok(stats.views.total > 0);
+
+    // IDs stay one path segment, so they cannot reach other endpoints
+    await assert.rejects(unsplashClient.getPhotoStatistics(`other/../${photos[0].id}`, 7), /Couldn't find Photo|404/);
+    await assert.rejects(unsplashClient.getPhotoById(`../photos/${photos[0].id}`), /Couldn't find Photo|404/);
+  });
+
+  await t.test('should browse collections and topics', async () => {
+    const collections = await unsplashClient.searchCollections('brand');
+    assert.strictEqual(collections.total, 1);
+
+    const collectionId = collections.results[0].id;
+    const collectionPhotos = await unsplashClient.getCollectionPhotos(collectionId, { perPage: 30 });
+    assert.strictEqual(collectionPhotos.length, collections.results[0].total_photos);
+
+    // Searching within a collection only returns its photos
+    const inCollection = await unsplashClient.searchPhotos('a', { collections: [collectionId], perPage: 30 });
+    const collectionIds = collectionPhotos.map(photo => photo.id);
+    assert.ok(inCollection.results.every(photo => collectionIds.includes(photo.id)));
+
+    const topics = await unsplashClient.listTopics();
+    assert.ok(topics.some(topic => topic.slug === 'nature'));
+
+    const topicPhotos = await unsplashClient.getTopicPhotos('nature', { orientation: 'landscape' });
+    assert.ok(topicPhotos.length > 0);
+    assert.ok(topicPhotos.every(photo => photo.width > photo.height));
+  });
+
+  await t.test('should look up photographers and their photos', async () => {
+    const user = await unsplashClient.getUser('alpine_ada');
+    assert.strictEqual(user.username, 'alpine_ada');
+    assert.strictEqual(user.total_photos, 2);
+
+    const portraits = await unsplashClient.getUserPhotos('alpine_ada', { orientation: 'portrait' });
+    assert.strictEqual(portraits.length, 1);
+    assert.strictEqual(portraits[0].user.username, 'alpine_ada');
+  });
+
+  await t.test('should validate photo details and skip sponsored photos', async () => {
+    const photo = await unsplashClient.getPhotoById('mock-photo-9');
+    assert.ok(photo.sponsorship);
+    assert.ok((photo.tags ?? []).length > 0);
+    assert.strictEqual(photo.exif?.model, 'EOS R5');
+    assert.strictEqual(photo.location?.country, 'Germany');
+
+    const search = await searchWithConstraints(unsplashClient, 'city', {
+      count: 1,
+      maxPages: 1,
+      excludeSponsored: true
+    });
+    assert.strictEqual(search.photos.length, 0);
+
+    const liked = await searchWithConstraints(unsplashClient, 'a', {
+      count: 3,
+      maxPages: 1,
+      sort: byLikes
+    });
+    const likes = liked.photos.map(p => p.likes ?? 0);
+    assert.deepStrictEqual(likes, [...likes].sort((a, b) => b - a));
+  });
+
+  await t.test('should page through search results until enough photos meet the constraints', async () => {
+    const search = await searchWithConstraints(unsplashClient, 'a', {
+      count: 2,
+      maxPages: 5,
+      perPage: 2,
+      minWidth: 6000
+    });
+
+    assert.strictEqual(search.pagesScanned, 2);
+    assert.strictEqual(search.photos.length, 2);
+    assert.ok(search.photos.every(photo => photo.width >= 6000));
+    assert.strictEqual(search.constraintsRelaxed, false);
+  });
+
+  await t.test('should report relaxed constraints when the page budget runs out', async () => {
+    const strict = await searchWithConstraints(unsplashClient, 'a', {
+      count: 1,
+      maxPages: 2,
+      perPage: 2,
+      minWidth: 9000
+    });
+    assert.strictEqual(strict.photos.length, 0);
+    assert.strictEqual(strict.pagesScanned, 2);
+
+    const relaxed = await searchWithConstraints(unsplashClient, 'a', {
+      count: 1,
+      maxPages: 2,
+      perPage: 2,
+      minWidth: 9000,
+      relaxConstraints: true
+    });
+    assert.strictEqual(relaxed.photos.length, 1);
+    assert.strictEqual(relaxed.matchedCount, 0);
+    assert.strictEqual(relaxed.constraintsRelaxed, true);
+  });
+
   await t.test('should retrieve attributions', async () => {
     // Create a mock context with a log object
     const context: MockContext = {
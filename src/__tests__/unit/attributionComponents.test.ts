@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import ts from 'typescript';
+import { generateAttributionComponent, COMPONENT_FORMATS, ComponentFormat } from '../../attributionComponents.js';
+import { Attribution } from '../../attributionManager.js';
+
+const attributions: Attribution[] = [{
+  id: 'abc123',
+  photographer: 'Dan </script><b>Desk',
+  photographerUrl: 'https://unsplash.com/@dandesk',
+  source: 'Unsplash',
+  sourceUrl: 'https://unsplash.com/photos/abc123',
+  license: 'Unsplash License',
+  downloadDate: '2025-05-01T00:00:00.000Z'
+}];
+
+// The TypeScript or JavaScript part of each component, with its file name for the parser
+function scriptOf(format: ComponentFormat, code: string): [string, string] {
+  switch (format) {
+    case 'vue':
+    case 'svelte':
+      return [code.match(/<script[^>]*>([\s\S]*?)<\/script>/)?.[1] ?? '', 'component.ts'];
+    case 'react':
+      return [code, 'component.tsx'];
+    case 'angular':
+      return [code, 'component.ts'];
+    case 'web-component':
+      return [code, 'component.js'];
+  }
+}
+
+test('generateAttributionComponent', async (t) => {
+  await t.test('should generate syntactically valid components with the attributions built in', () => {
+    for (const format of COMPONENT_FORMATS) {
+      const code = generateAttributionComponent(format, attributions);
+      const [script, fileName] = scriptOf(format, code);
+      const output = ts.transpileModule(script, {
+        fileName,
+        reportDiagnostics: true,
+        compilerOptions: { jsx: ts.JsxEmit.Preserve, experimentalDecorators: true, target: ts.ScriptTarget.ES2022 }
+      });
+
+      assert.deepStrictEqual(output.diagnostics?.map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n')), [], format);
+      assert.match(script, /"abc123": \{/, format);
+    }
+  });
+
+  await t.test('should offer a single credit and a full credits list', () => {
+    const props: Record<ComponentFormat, RegExp[]> = {
+      react: [/photoId\?: string/, /showAll\?: boolean/],
+      vue: [/photoId\?: string/, /showAll\?: boolean/],
+      angular: [/@Input\(\) photoId\?: string/, /@Input\(\) showAll = false/],
+      svelte: [/export let photoId: string \| undefined/, /export let showAll = false/],
+      'web-component': [/observedAttributes = \['photo-id', 'show-all'\]/]
+    };
+
+    for (const format of COMPONENT_FORMATS) {
+      const code = generateAttributionComponent(format, attributions);
+      props[format].forEach(pattern => assert.match(code, pattern, format));
+      assert.match(code, /image-attribution-list/, format);
+    }
+  });
+
+  await t.test('should not let attribution text close the script block', () => {
+    for (const format of COMPONENT_FORMATS) {
+      const code = generateAttributionComponent(format, attributions);
+      assert.ok(!code.includes('Dan </script>'), format);
+      assert.ok(code.includes('Dan \\u003c/script>\\u003cb>Desk'), format);
+    }
+  });
+
+  await t.test('should not link to script URLs from the records', () => {
+    const poisoned: Attribution[] = [{
+      ...attributions[0],
+      photographerUrl: 'javascript:alert(1)',
+      sourceUrl: 'java\tscript:alert(2)'
+    }];
+    for (const format of COMPONENT_FORMATS) {
+      const code = generateAttributionComponent(format, poisoned);
+      assert.ok(!/java\\?t?script:/i.test(code), format);
+      assert.match(code, /"photographerUrl": "#"/, format);
+      assert.match(code, /"sourceUrl": "#"/, format);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  AttributionDatabaseError,
+  DATABASE_VERSION,
+  backupPathFor,
+  loadDatabase,
+  withFileLock,
+  withFileLockAsync
+} from '../../attributionDatabase.js';
+import { AttributionManager } from '../../attributionManager.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('attributionDatabase', async (t) => {
+  const tempDir = useTempDir(t, 'unsplash-database-test');
+  let dbPath: string;
+
+  t.beforeEach(async () => {
+    dbPath = path.join(tempDir(), 'attributions.json');
+  });
+
+  await t.test('should migrate version 1.0.0 databases', async () => {
+    await fs.writeJson(dbPath, {
+      version: '1.0.0',
+      attributions: {
+        abc: { photographer: 'Dan Desk', sourceUrl: 'https://unsplash.com/photos/abc', downloadDate: '2025-05-01' }
+      }
+    });
+
+    const { db, readOnly } = loadDatabase(dbPath);
+    assert.strictEqual(readOnly, false);
+    assert.strictEqual(db.version, DATABASE_VERSION);
+    assert.deepStrictEqual(db.attributions.abc, {
+      id: 'abc',
+      photographer: 'Dan Desk',
+      sourceUrl: 'https://unsplash.com/photos/abc',
+      source: 'Unsplash',
+      license: 'Unsplash License',
+      downloadDate: '2025-05-01T00:00:00.000Z'
+    });
+
+    // The file is upgraded on the next write, keeping the old records
+    const manager = new AttributionManager(dbPath);
+    await manager.addAttribution(fakePhoto('def'), path.join(tempDir(), 'def.jpg'));
+    const stored = await fs.readJson(dbPath);
+    assert.strictEqual(stored.version, DATABASE_VERSION);
+    assert.deepStrictEqual(Object.keys(stored.attributions).sort(), ['abc', 'def']);
+  });
+
+  await t.test('should recover a corrupt database from its backup', async () => {
+    const manager = new AttributionManager(dbPath);
+    await manager.addAttribution(fakePhoto('a'), path.join(tempDir(), 'a.jpg'));
+    await manager.addAttribution(fakePhoto('b'), path.join(tempDir(), 'b.jpg'));
+    assert.ok(fs.existsSync(backupPathFor(dbPath)));
+
+    // A crash halfway through a write by something other than this module
+    await fs.writeFile(dbPath, '{"attributions": {"a": {');
+
+    const recovered = new AttributionManager(dbPath);
+    assert.deepStrictEqual(recovered.getAllAttributions().map(a => a.id), ['a']);
+
+    await recovered.addAttribution(fakePhoto('c'), path.join(tempDir(), 'c.jpg'));
+    assert.deepStrictEqual(Object.keys((await fs.readJson(dbPath)).attributions).sort(), ['a', 'c']);
+    assert.ok((await fs.readdir(tempDir())).some(file => file.startsWith('attributions.json.corrupt-')));
+  });
+
+  await t.test('should not overwrite databases from a newer version', async () => {
+    await fs.writeJson(dbPath, { version: '99.0.0', attributions: { a: { id: 'a', futureField: true } } });
+
+    const manager = new AttributionManager(dbPath);
+    assert.strictEqual(manager.getAllAttributions().length, 1);
+    await assert.rejects(manager.addAttribution(fakePhoto('b'), path.join(tempDir(), 'b.jpg')), AttributionDatabaseError);
+    assert.strictEqual((await fs.readJson(dbPath)).version, '99.0.0');
+  });
+
+  await t.test('should keep changes made through another manager', async () => {
+    const first = new AttributionManager(dbPath);
+    const second = new AttributionManager(dbPath);
+
+    await first.addAttribution(fakePhoto('a'), path.join(tempDir(), 'a.jpg'));
+    await second.addAttribution(fakePhoto('b'), path.join(tempDir(), 'b.jpg'));
+    await first.removeAttribution('b');
+    await second.addAttribution(fakePhoto('c'), path.join(tempDir(), 'c.jpg'));
+
+    assert.deepStrictEqual(first.getAllAttributions().map(a => a.id).sort(), ['a', 'c']);
+    assert.deepStrictEqual(new AttributionManager(dbPath).getAllAttributions().map(a => a.id).sort(), ['a', 'c']);
+  });
+
+  await t.test('should wait for live locks and clear stale ones', async () => {
+    const lockPath = `${dbPath}.lock`;
+
+    // Held by a running process (this one)
+    await fs.writeJson(lockPath, { pid: process.pid });
+    assert.throws(() => withFileLock(dbPath, () => 'locked', { timeoutMs: 100 }), /Timed out waiting/);
+
+    // Held by another running process
+    const holder = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 10000)']);
+    try {
+      await fs.writeJson(lockPath, { pid: holder.pid });
+      assert.throws(() => withFileLock(dbPath, () => 'locked', { timeoutMs: 100 }), /Timed out waiting/);
+      assert.deepStrictEqual(await fs.readJson(lockPath), { pid: holder.pid });
+    } finally {
+      holder.kill();
+    }
+
+    // Left behind by a process that has exited
+    await fs.writeJson(lockPath, { pid: 2 ** 22 + 1 });
+    assert.strictEqual(withFileLock(dbPath, () => 'locked', { timeoutMs: 100 }), 'locked');
+    assert.ok(!fs.existsSync(lockPath));
+  });
+
+  await t.test('should let other work run while waiting for a lock', async () => {
+    const lockPath = `${dbPath}.lock`;
+    await fs.writeJson(lockPath, { pid: process.pid });
+
+    // Released by a timer, which could never fire if waiting blocked the event loop
+    let released = false;
+    setTimeout(() => {
+      released = true;
+      fs.rmSync(lockPath);
+    }, 50);
+
+    assert.strictEqual(await withFileLockAsync(dbPath, () => released, { timeoutMs: 1000 }), true);
+    assert.ok(!fs.existsSync(lockPath));
+  });
+
+  await t.test('should only release its own lock', async () => {
+    const lockPath = `${dbPath}.lock`;
+
+    // Taken over by another process while this one held it for too long
+    withFileLock(dbPath, () => fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, token: 'other' })));
+
+    assert.deepStrictEqual(await fs.readJson(lockPath), { pid: process.pid, token: 'other' });
+  });
+});
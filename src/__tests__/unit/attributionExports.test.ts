@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { exportAttributions, groupAttributions } from '../../attributionExports.js';
+import { Attribution } from '../../attributionManager.js';
+
+const attribution = (id: string, photographer: string, projectFile: string, downloadDate: string): Attribution => ({
+  id,
+  photographer,
+  photographerUrl: `https://unsplash.com/@${id}`,
+  source: 'Unsplash',
+  sourceUrl: `https://unsplash.com/photos/${id}`,
+  license: 'Unsplash License',
+  downloadDate,
+  projectPath: 'public/images',
+  projectFile
+});
+
+const attributions = [
+  attribution('c', 'Zoe Zoom', 'team.jpg', '2025-05-02T09:00:00.000Z'),
+  attribution('a', 'Dan Desk', 'hero.jpg', '2025-05-02T08:00:00.000Z'),
+  attribution('b', 'Dan Desk', 'about.jpg', '2025-05-01T12:00:00.000Z')
+];
+
+test('attributionExports', async (t) => {
+  await t.test('should group and sort attributions', () => {
+    assert.deepStrictEqual(
+      groupAttributions(attributions).map(group => group.attributions.map(a => a.id)),
+      [['b', 'a', 'c']]
+    );
+
+    const byPhotographer = groupAttributions(attributions, { groupBy: 'photographer', sortBy: 'date' });
+    assert.deepStrictEqual(byPhotographer.map(group => group.label), ['Dan Desk', 'Zoe Zoom']);
+    assert.deepStrictEqual(byPhotographer[0].attributions.map(a => a.id), ['b', 'a']);
+
+    const byDate = groupAttributions(attributions, { groupBy: 'date' });
+    assert.deepStrictEqual(byDate.map(group => [group.label, group.attributions.length]), [['2025-05-01', 1], ['2025-05-02', 2]]);
+  });
+
+  await t.test('should render Markdown and CREDITS with group headings', () => {
+    const markdown = exportAttributions('markdown', [attribution('x', 'Ann *Star*', 'hero.jpg', '2025-05-01')], { groupBy: 'photographer' });
+    assert.match(markdown, /^## Ann \\\*Star\\\*$/m);
+    assert.match(markdown, /- `public\/images\/hero\.jpg`: Photo by \[Ann \\\*Star\\\*\]\(<https:\/\/unsplash\.com\/@x>\) on \[Unsplash\]/);
+
+    const credits = exportAttributions('credits', attributions, { groupBy: 'photographer' });
+    assert.match(credits, /^Dan Desk\n--------\n\npublic\/images\/about\.jpg\n  Photo by Dan Desk on Unsplash$/m);
+  });
+
+  await t.test('should quote CSV cells and neutralise formulas', () => {
+    const csv = exportAttributions('csv', [attribution('x', '=HYPERLINK("evil"), Inc', 'hero.jpg', '2025-05-01')]);
+    const [header, row] = csv.split('\r\n');
+
+    assert.strictEqual(header, 'photo_id,file,project_path,photographer,photographer_url,source,source_url,license,download_date,credit');
+    assert.ok(row.startsWith(`x,hero.jpg,public/images,"'=HYPERLINK(""evil""), Inc",`));
+  });
+
+  await t.test('should describe each image as a schema.org ImageObject', () => {
+    const jsonLd = JSON.parse(exportAttributions('jsonld', attributions));
+
+    assert.strictEqual(jsonLd['@context'], 'https://schema.org');
+    assert.deepStrictEqual(jsonLd['@graph'][0], {
+      '@type': 'ImageObject',
+      identifier: 'b',
+      name: 'about.jpg',
+      url: 'https://unsplash.com/photos/b',
+      creator: { '@type': 'Person', name: 'Dan Desk', url: 'https://unsplash.com/@b' },
+      creditText: 'Photo by Dan Desk on Unsplash',
+      copyrightNotice: 'Dan Desk',
+      license: 'https://unsplash.com/license',
+      acquireLicensePage: 'https://unsplash.com/photos/b'
+    });
+  });
+});
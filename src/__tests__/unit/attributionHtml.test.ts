@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { renderAttributionPages, renderTemplate, safeUrl } from '../../attributionHtml.js';
+import { Attribution } from '../../attributionManager.js';
+
+const attribution = (id: string, overrides: Partial<Attribution> = {}): Attribution => ({
+  id,
+  photographer: `Photographer ${id}`,
+  photographerUrl: `https://unsplash.com/@${id}`,
+  source: 'Unsplash',
+  sourceUrl: `https://unsplash.com/photos/${id}`,
+  license: 'Unsplash License',
+  downloadDate: '2025-05-01T08:00:00.000Z',
+  projectPath: '/site/public/images',
+  projectFile: `${id}.jpg`,
+  ...overrides
+});
+
+test('attributionHtml', async (t) => {
+  await t.test('should escape attribution text and drop unsafe links', () => {
+    const [page] = renderAttributionPages([attribution('x', {
+      photographer: '<img src=x onerror=alert(1)> {{title}}',
+      photographerUrl: 'javascript:alert(1)'
+    })]);
+
+    assert.ok(!page.html.includes('<img src=x'));
+    assert.ok(page.html.includes('&lt;img src=x onerror=alert(1)&gt; &#123;&#123;title&#125;&#125;'));
+    assert.ok(!page.html.includes('javascript:'));
+    assert.match(page.html, /<a href="#" target="_blank"/);
+  });
+
+  await t.test('should drop script links hidden with whitespace and control characters', () => {
+    for (const url of ['java\tscript:alert(1)', 'java\nscript:alert(1)', '\x01javascript:alert(1)', ' JavaScript:alert(1)', 'data:text/html,<script>']) {
+      assert.strictEqual(safeUrl(url), '#', JSON.stringify(url));
+    }
+    assert.strictEqual(safeUrl('https://unsplash.com/@a'), 'https://unsplash.com/@a');
+    assert.strictEqual(safeUrl('images/a b.jpg'), 'images/a b.jpg');
+    assert.strictEqual(safeUrl(undefined), '#');
+  });
+
+  await t.test('should render the built-in themes', () => {
+    const attributions = [
+      attribution('a', { thumbnailUrl: 'https://images.unsplash.com/photo-a?w=200' }),
+      attribution('b')
+    ];
+
+    const [light] = renderAttributionPages(attributions);
+    assert.match(light.html, /^<!DOCTYPE html>/);
+    assert.match(light.html, /unsplash-attributions--light/);
+
+    const [dark] = renderAttributionPages(attributions, { theme: 'dark' });
+    assert.match(dark.html, /background: #0d1117/);
+
+    const [grid] = renderAttributionPages(attributions, { theme: 'grid', baseDir: '/site/public/credits' });
+    assert.match(grid.html, /<img src="https:\/\/images\.unsplash\.com\/photo-a\?w=200" alt="a\.jpg"/);
+    // Records without a thumbnail URL show the downloaded file
+    assert.match(grid.html, /<img src="\.\.\/images\/b\.jpg" alt="b\.jpg"/);
+  });
+
+  await t.test('should render user templates', () => {
+    const template = '<ul>{{#attributions}}<li data-page="{{page}}">{{credit}}</li>{{/attributions}}</ul>{{^attributions}}None{{/attributions}}';
+
+    const [page] = renderAttributionPages([attribution('a'), attribution('b')], { template, fragment: true });
+    assert.strictEqual(page.html, '<ul><li data-page="1">Photo by Photographer a on Unsplash</li><li data-page="1">Photo by Photographer b on Unsplash</li></ul>');
+
+    const [empty] = renderAttributionPages([], { template, fragment: true });
+    assert.strictEqual(empty.html, '<ul></ul>None');
+
+    assert.throws(() => renderTemplate('{{#attributions}}<li>', {}), /unclosed/);
+  });
+
+  await t.test('should split attributions into linked pages', () => {
+    const pages = renderAttributionPages(['a', 'b', 'c', 'd', 'e'].map(id => attribution(id)), { pageSize: 2 }, 'credits.html');
+
+    assert.deepStrictEqual(pages.map(page => page.fileName), ['credits.html', 'credits-2.html', 'credits-3.html']);
+    assert.match(pages[1].html, /<a href="credits\.html" rel="prev">/);
+    assert.match(pages[1].html, /<a href="credits-3\.html" rel="next">/);
+    assert.match(pages[1].html, /<span aria-current="page">2<\/span>/);
+    assert.ok(!pages[0].html.includes('rel="prev"'));
+    assert.ok(pages[2].html.includes('e.jpg') && !pages[2].html.includes('d.jpg'));
+  });
+
+  await t.test('should render a fragment without the document around it', () => {
+    const [page] = renderAttributionPages([attribution('a')], { fragment: true });
+
+    assert.ok(!page.html.includes('<!DOCTYPE'));
+    assert.match(page.html, /^<section class="unsplash-attributions/);
+    assert.ok(!page.html.includes('<nav'));
+  });
+});
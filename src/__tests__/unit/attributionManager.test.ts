@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import { AttributionManager, PROJECT_DATABASE_PATH, findProjectDatabaseRoot, isInside } from '../../attributionManager.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('AttributionManager', async (t) => {
+  const tempDir = useTempDir(t, 'unsplash-attributions-test');
+
+  await t.test('should store project paths relative to the project root', async () => {
+    const projectRoot = path.join(tempDir(), 'site');
+    const manager = AttributionManager.forProject(projectRoot);
+    await manager.addAttribution(fakePhoto('a'), path.join(projectRoot, 'public', 'images', 'a.jpg'));
+    await manager.addAttribution(fakePhoto('b'), path.join(tempDir(), 'elsewhere', 'b.jpg'));
+
+    const stored = await fs.readJson(path.join(projectRoot, PROJECT_DATABASE_PATH));
+    assert.strictEqual(stored.attributions.a.projectPath, 'public/images');
+    assert.strictEqual(stored.attributions.b.projectPath, path.join(tempDir(), 'elsewhere'));
+
+    // A checkout somewhere else resolves the same records against its own root
+    const clone = path.join(tempDir(), 'clone');
+    await fs.copy(projectRoot, clone);
+    const cloned = AttributionManager.forProject(clone);
+    assert.strictEqual(cloned.getAttribution('a')?.projectPath, path.join(clone, 'public', 'images'));
+    assert.deepStrictEqual(cloned.getAttributionsForProject(clone).map(a => a.id), ['a']);
+  });
+
+  await t.test('should find the project database above a directory', async () => {
+    const projectRoot = path.join(tempDir(), 'site');
+    await fs.outputJson(path.join(projectRoot, PROJECT_DATABASE_PATH), { attributions: {}, version: '1.0.0' });
+
+    assert.strictEqual(findProjectDatabaseRoot(path.join(projectRoot, 'public', 'images')), projectRoot);
+    assert.strictEqual(findProjectDatabaseRoot(path.join(tempDir(), 'other')), undefined);
+  });
+
+  await t.test('should merge databases, keeping the latest download of each photo', async () => {
+    const projectRoot = path.join(tempDir(), 'site');
+    const global = new AttributionManager(path.join(tempDir(), 'global.json'));
+    const project = AttributionManager.forProject(projectRoot);
+
+    await global.addAttribution(fakePhoto('a'), path.join(projectRoot, 'images', 'a.jpg'));
+    await global.addAttribution(fakePhoto('b'), path.join(tempDir(), 'other', 'b.jpg'));
+    await project.addAttribution(fakePhoto('c'), path.join(projectRoot, 'images', 'c.jpg'));
+
+    const pulled = await project.mergeFrom(global, global.getAttributionsForProject(projectRoot));
+    assert.deepStrictEqual(pulled, { added: 1, updated: 0, unchanged: 0 });
+    assert.deepStrictEqual(project.getAllAttributions().map(a => a.id).sort(), ['a', 'c']);
+
+    const pushed = await global.mergeFrom(project);
+    assert.deepStrictEqual(pushed, { added: 1, updated: 0, unchanged: 1 });
+    assert.strictEqual(global.getAttribution('c')?.projectPath, path.join(projectRoot, 'images'));
+  });
+
+  await t.test('should not count sibling directories sharing the name as part of a project', async () => {
+    const projectRoot = path.join(tempDir(), 'site');
+    const sibling = path.join(tempDir(), 'site-v2');
+    const global = new AttributionManager(path.join(tempDir(), 'global.json'));
+
+    await global.addAttribution(fakePhoto('a'), path.join(projectRoot, 'images', 'a.jpg'));
+    await global.addAttribution(fakePhoto('b'), path.join(sibling, 'images', 'b.jpg'));
+    await global.addHotlinkedPhoto(fakePhoto('c'), [{ file: path.join(sibling, 'index.html'), line: 1, url: 'https://unsplash.com/photos/c' }]);
+
+    assert.deepStrictEqual(global.getAttributionsForProject(projectRoot).map(a => a.id), ['a']);
+    assert.ok(isInside(projectRoot, projectRoot));
+    assert.ok(!isInside(projectRoot, sibling));
+    assert.ok(!isInside(projectRoot, tempDir()));
+  });
+
+  await t.test('should throw when attribution files cannot be written', async () => {
+    const manager = new AttributionManager(path.join(tempDir(), 'global.json'));
+    await manager.addAttribution(fakePhoto('a'), path.join(tempDir(), 'a.jpg'));
+    // A file where the output directory should be
+    const blocked = path.join(tempDir(), 'blocked');
+    await fs.outputFile(blocked, '');
+
+    assert.throws(() => manager.saveAttributionHtml(path.join(blocked, 'unsplash-attributions.html')), /Error saving attribution HTML/);
+    assert.throws(() => manager.saveAttributionExport('markdown', path.join(blocked, 'CREDITS.md')), /Error saving markdown attributions/);
+    assert.throws(() => manager.generateComponent('react', path.join(blocked, 'Attribution.tsx')), /Error generating react component/);
+  });
+});
@@ -0,0 +1,132 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import { AttributionManager } from '../../attributionManager.js';
+import { attributionFromMetadata, rebuildAttributions } from '../../attributionRebuilder.js';
+import { AttributionMetadata } from '../../metadataManager.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+// Metadata as written by MetadataManager.addAttributionMetadata with all formats enabled
+const written = (id: string): AttributionMetadata => ({
+  creator: `Photographer ${id}`,
+  creatorUrl: `https://unsplash.com/@${id}`,
+  credit: `Photo by Photographer ${id} on Unsplash`,
+  source: 'Unsplash',
+  rights: 'Unsplash License',
+  webStatement: `https://unsplash.com/photos/${id}`,
+  identifier: id
+});
+
+test('attributionFromMetadata', async (t) => {
+  await t.test('should take the photographer from credits when there is no creator', () => {
+    const fromIptc = attributionFromMetadata({ credit: 'Dan Desk / Unsplash', source: 'Unsplash', identifier: 'abc' });
+    assert.strictEqual(fromIptc.photographer, 'Dan Desk');
+
+    const fromExif = attributionFromMetadata({ rights: 'Photo by Dan Desk on Unsplash (https://unsplash.com/photos/abc)' });
+    assert.strictEqual(fromExif.photographer, 'Dan Desk');
+    assert.strictEqual(fromExif.sourceUrl, 'https://unsplash.com/photos/abc');
+  });
+
+  await t.test('should only take photographer and photo links to unsplash.com', () => {
+    const hostile = attributionFromMetadata({
+      ...written('abc'),
+      creatorUrl: 'javascript:alert(1)',
+      webStatement: 'https://unsplash.com.evil.example/photos/abc'
+    });
+    assert.strictEqual(hostile.photographerUrl, undefined);
+    assert.strictEqual(hostile.sourceUrl, 'https://unsplash.com/photos/abc');
+
+    const elsewhere = attributionFromMetadata({ ...written('abc'), creatorUrl: 'https://example.com/@abc' });
+    assert.strictEqual(elsewhere.photographerUrl, undefined);
+    assert.strictEqual(attributionFromMetadata(written('abc')).photographerUrl, 'https://unsplash.com/@abc');
+  });
+
+  await t.test('should ignore images without Unsplash metadata', () => {
+    assert.deepStrictEqual(attributionFromMetadata({ creator: 'Someone', identifier: 'abc' }), {});
+  });
+});
+
+test('rebuildAttributions', async (t) => {
+  const projectRoot = useTempDir(t, 'unsplash-rebuild-test');
+  let manager: AttributionManager;
+  // Metadata embedded in each image, by file name
+  let embedded: Record<string, AttributionMetadata>;
+  const metadata = { readAttributionMetadata: async (file: string) => embedded[path.basename(file)] ?? {} };
+
+  const image = async (relativePath: string) => {
+    await fs.outputFile(path.join(projectRoot(), relativePath), relativePath);
+  };
+
+  t.beforeEach(async () => {
+    manager = AttributionManager.forProject(projectRoot());
+    embedded = {};
+  });
+
+  await t.test('should recreate records from embedded metadata', async () => {
+    await image('public/a.jpg');
+    await image('public/copy-of-a.jpg');
+    await image('public/b.jpg');
+    await image('public/logo.png');
+    embedded['a.jpg'] = written('a');
+    embedded['copy-of-a.jpg'] = written('a');
+    // Only IPTC and EXIF, so no photo ID
+    embedded['b.jpg'] = { credit: 'Photographer b / Unsplash', rights: 'Photo by Photographer b on Unsplash (https://unsplash.com/photos/b)' };
+
+    const report = await rebuildAttributions(manager, metadata, projectRoot());
+
+    assert.strictEqual(report.scanned, 4);
+    assert.deepStrictEqual(report.added, [{ id: 'a', file: 'public/a.jpg', lookedUp: false }]);
+    assert.strictEqual(report.existing, 1);
+    assert.deepStrictEqual(report.incomplete.map(image => image.file), ['public/b.jpg']);
+
+    const attribution = manager.getAttribution('a');
+    assert.strictEqual(attribution?.photographer, 'Photographer a');
+    assert.strictEqual(attribution?.photographerUrl, 'https://unsplash.com/@a');
+    assert.strictEqual(attribution?.sourceUrl, 'https://unsplash.com/photos/a');
+    assert.strictEqual(attribution?.projectPath, path.join(projectRoot(), 'public'));
+    assert.strictEqual(attribution?.projectFile, 'a.jpg');
+    assert.ok(attribution?.contentHash);
+
+    // Running again finds the records already there
+    const again = await rebuildAttributions(manager, metadata, projectRoot());
+    assert.deepStrictEqual(again.added, []);
+    assert.strictEqual(again.existing, 2);
+  });
+
+  await t.test('should look up details the metadata lacks', async () => {
+    await image('a.jpg');
+    await image('b.jpg');
+    embedded['a.jpg'] = { source: 'Unsplash', identifier: 'a' };
+    embedded['b.jpg'] = { source: 'Unsplash', identifier: 'b' };
+    const lookupPhoto = async (id: string) => {
+      if (id === 'b') {
+        throw new Error('Not found');
+      }
+      return fakePhoto(id);
+    };
+
+    const report = await rebuildAttributions(manager, metadata, projectRoot(), { lookupPhoto });
+
+    assert.deepStrictEqual(report.added, [{ id: 'a', file: 'a.jpg', lookedUp: true }]);
+    assert.match(report.incomplete[0].reason, /lookup failed: Not found/);
+    assert.strictEqual(manager.getAttribution('a')?.photographer, 'Photographer a');
+    assert.strictEqual(manager.getAttribution('a')?.thumbnailUrl, 'https://images.unsplash.com/photo-a?w=200');
+  });
+
+  await t.test('should only replace existing records when asked', async () => {
+    await image('images/a.jpg');
+    embedded['a.jpg'] = written('a');
+    await manager.addAttribution(fakePhoto('a', { user: { name: 'Old Name', username: 'a' } }), path.join(projectRoot(), 'old/a.jpg'));
+    const downloadDate = manager.getAttribution('a')?.downloadDate;
+
+    const dryRun = await rebuildAttributions(manager, metadata, projectRoot(), { overwrite: true, dryRun: true });
+    assert.deepStrictEqual(dryRun.replaced.map(image => image.file), ['images/a.jpg']);
+    assert.strictEqual(manager.getAttribution('a')?.photographer, 'Old Name');
+
+    await rebuildAttributions(manager, metadata, projectRoot(), { overwrite: true });
+    assert.strictEqual(manager.getAttribution('a')?.photographer, 'Photographer a');
+    assert.strictEqual(manager.getAttribution('a')?.projectPath, path.join(projectRoot(), 'images'));
+    assert.strictEqual(manager.getAttribution('a')?.downloadDate, downloadDate);
+  });
+});
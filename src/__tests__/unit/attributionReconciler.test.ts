@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import { AttributionManager } from '../../attributionManager.js';
+import { reconcileAttributions } from '../../attributionReconciler.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('reconcileAttributions', async (t) => {
+  const projectRoot = useTempDir(t, 'unsplash-reconcile-test');
+  let manager: AttributionManager;
+  // Unsplash metadata embedded in each image, by file name
+  let embedded: Record<string, { photoId?: string; sourceUrl?: string }>;
+  const metadata = { readUnsplashMetadata: async (file: string) => embedded[path.basename(file)] ?? {} };
+
+  const download = async (id: string, relativePath: string) => {
+    const file = path.join(projectRoot(), relativePath);
+    await fs.outputFile(file, `image ${id}`);
+    await manager.addAttribution(fakePhoto(id), file);
+    return file;
+  };
+
+  t.beforeEach(async () => {
+    manager = AttributionManager.forProject(projectRoot());
+    embedded = {};
+  });
+
+  await t.test('should follow moved images and flag missing and untracked ones', async () => {
+    await download('kept', 'public/images/kept.jpg');
+    const tagged = await download('tagged', 'public/images/tagged.jpg');
+    const plain = await download('plain', 'public/images/plain.jpg');
+    const deleted = await download('deleted', 'public/images/deleted.jpg');
+
+    // Moved with its metadata, moved without any, deleted, and one nobody recorded
+    embedded['hero.jpg'] = { photoId: 'tagged' };
+    await fs.move(tagged, path.join(projectRoot(), 'src/assets/hero.jpg'));
+    await fs.move(plain, path.join(projectRoot(), 'src/assets/banner.JPG'));
+    await fs.remove(deleted);
+    embedded['stray.webp'] = { sourceUrl: 'https://unsplash.com/photos/stray' };
+    await fs.outputFile(path.join(projectRoot(), 'public/stray.webp'), 'stray');
+    // Build output is ignored
+    await fs.copy(path.join(projectRoot(), 'src/assets/hero.jpg'), path.join(projectRoot(), 'dist/hero.jpg'));
+
+    const report = await reconcileAttributions(manager, metadata, projectRoot());
+
+    assert.strictEqual(report.scanned, 4);
+    assert.strictEqual(report.unchanged, 1);
+    assert.deepStrictEqual(report.moved, [
+      { id: 'tagged', from: 'public/images/tagged.jpg', to: 'src/assets/hero.jpg', matchedBy: 'metadata' },
+      { id: 'plain', from: 'public/images/plain.jpg', to: 'src/assets/banner.JPG', matchedBy: 'hash' }
+    ]);
+    assert.deepStrictEqual(report.missing, [{ id: 'deleted', file: 'public/images/deleted.jpg', photographer: 'Photographer deleted' }]);
+    assert.deepStrictEqual(report.untracked, [{ file: 'public/stray.webp', photoId: undefined, sourceUrl: 'https://unsplash.com/photos/stray' }]);
+
+    assert.strictEqual(manager.getAttribution('tagged')?.projectPath, path.join(projectRoot(), 'src', 'assets'));
+    assert.strictEqual(manager.getAttribution('plain')?.projectFile, 'banner.JPG');
+    assert.ok(manager.getAttribution('deleted'));
+  });
+
+  await t.test('should leave the database alone in a dry run', async () => {
+    const file = await download('a', 'images/a.jpg');
+    await fs.move(file, path.join(projectRoot(), 'images/renamed.jpg'));
+
+    const report = await reconcileAttributions(manager, metadata, projectRoot(), { dryRun: true });
+
+    assert.deepStrictEqual(report.moved.map(image => image.to), ['images/renamed.jpg']);
+    assert.strictEqual(manager.getAttribution('a')?.projectFile, 'a.jpg');
+  });
+});
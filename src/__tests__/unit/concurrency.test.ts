@@ -0,0 +1,34 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { mapSettled } from '../../concurrency.js';
+
+test('mapSettled', async (t) => {
+  await t.test('should never run more tasks than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapSettled([30, 10, 20, 5, 15], 2, async (delay) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return delay;
+    });
+
+    assert.strictEqual(peak, 2);
+    // Results keep the input order even though tasks finish out of order
+    assert.deepStrictEqual(
+      results.map(result => result.status === 'fulfilled' ? result.value : null),
+      [30, 10, 20, 5, 15]
+    );
+  });
+
+  await t.test('should keep going when a task fails', async () => {
+    const results = await mapSettled(['a', 'b', 'c'], 1, async (item) => {
+      if (item === 'b') throw new Error('boom');
+      return item;
+    });
+
+    assert.deepStrictEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+  });
+});
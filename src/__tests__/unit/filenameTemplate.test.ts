@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  renderFilenameTemplate,
+  resolveFilenameCollision,
+  validateFilenameTemplate,
+  FilenameValues
+} from '../../filenameTemplate.js';
+
+const values: FilenameValues = {
+  query: 'Modern Office',
+  purpose: 'hero',
+  id: 'abc-123_X',
+  photographer: 'Dan Desk',
+  width: 1920,
+  height: 1080,
+  index: 2,
+  date: '2025-05-01',
+  ext: 'webp'
+};
+
+test('filenameTemplate', async (t) => {
+  await t.test('should render every token', () => {
+    assert.strictEqual(
+      renderFilenameTemplate('{purpose}-{query}_{photographer}_{width}x{height}_{index}_{date}_{id}.{ext}', values),
+      'hero-modern_office_dan_desk_1920x1080_2_2025-05-01_abc-123_X.webp'
+    );
+  });
+
+  await t.test('should append the extension when the template has none', () => {
+    assert.strictEqual(renderFilenameTemplate('{query}', values), 'modern_office.webp');
+  });
+
+  await t.test('should reject unknown tokens and path separators', () => {
+    assert.match(validateFilenameTemplate('{query}_{size}') ?? '', /Unknown filename template token\(s\): \{size\}/);
+    assert.ok(validateFilenameTemplate('../{query}'));
+    assert.ok(validateFilenameTemplate('images/{query}'));
+    assert.strictEqual(validateFilenameTemplate('{query} {index}.{ext}'), undefined);
+  });
+
+  await t.test('should apply each collision policy', () => {
+    const existing = new Set(['hero.jpg', 'hero-2.jpg']);
+    const isTaken = (name: string) => existing.has(name);
+
+    assert.strictEqual(resolveFilenameCollision('hero.jpg', 'suffix', isTaken, new Set()).fileName, 'hero-3.jpg');
+    assert.deepStrictEqual(
+      resolveFilenameCollision('hero.jpg', 'overwrite', isTaken, new Set()),
+      { fileName: 'hero.jpg', skipped: false, overwrites: true }
+    );
+    assert.strictEqual(resolveFilenameCollision('hero.jpg', 'skip', isTaken, new Set()).skipped, true);
+    assert.throws(() => resolveFilenameCollision('hero.jpg', 'error', isTaken, new Set()), /already exists/);
+  });
+
+  await t.test('should never hand out the same name twice in one request', () => {
+    const reserved = new Set<string>();
+    const first = resolveFilenameCollision('hero.jpg', 'overwrite', () => false, reserved);
+    const second = resolveFilenameCollision('hero.jpg', 'overwrite', () => false, reserved);
+
+    assert.strictEqual(first.fileName, 'hero.jpg');
+    assert.strictEqual(second.fileName, 'hero-2.jpg');
+  });
+});
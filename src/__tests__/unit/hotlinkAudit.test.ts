@@ -0,0 +1,107 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import { AttributionManager } from '../../attributionManager.js';
+import { auditHotlinks, photoIdFromPageUrl } from '../../hotlinkAudit.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('photoIdFromPageUrl', async (t) => {
+  await t.test('should read IDs from plain and described page URLs', () => {
+    assert.strictEqual(photoIdFromPageUrl('https://unsplash.com/photos/Dwu85P9SOIk'), 'Dwu85P9SOIk');
+    assert.strictEqual(photoIdFromPageUrl('https://unsplash.com/photos/a-desk-by-a-window-Dwu85P9SOIk?utm_source=app'), 'Dwu85P9SOIk');
+    assert.strictEqual(photoIdFromPageUrl('//unsplash.com/photos/-ayOfwsd9mY/download'), '-ayOfwsd9mY');
+  });
+
+  await t.test('should leave out punctuation ending a sentence', () => {
+    assert.strictEqual(photoIdFromPageUrl('https://unsplash.com/photos/Dwu85P9SOIk.'), 'Dwu85P9SOIk');
+    assert.strictEqual(photoIdFromPageUrl('https://unsplash.com/photos/a-desk-Dwu85P9SOIk,'), 'Dwu85P9SOIk');
+  });
+});
+
+test('auditHotlinks', async (t) => {
+  const projectRoot = useTempDir(t, 'unsplash-hotlink-test');
+  let manager: AttributionManager;
+  let lookups: string[];
+  const lookupPhoto = async (id: string) => {
+    lookups.push(id);
+    if (id === 'missingPhoto') {
+      throw new Error('Not found');
+    }
+    return fakePhoto(id);
+  };
+
+  t.beforeEach(async () => {
+    manager = AttributionManager.forProject(projectRoot());
+    lookups = [];
+  });
+
+  await t.test('should record hotlinked photos with their file and line', async () => {
+    // Downloaded before, and now also hotlinked by its image URL
+    await fs.outputFile(path.join(projectRoot(), 'public/known.jpg'), 'known');
+    await manager.addAttribution(fakePhoto('known'), path.join(projectRoot(), 'public/known.jpg'));
+
+    await fs.outputFile(path.join(projectRoot(), 'src/Hero.tsx'), [
+      'export const Hero = () => (',
+      '  <img src="https://images.unsplash.com/photo-known?w=1600&q=80" />',
+      ');'
+    ].join('\n'));
+    await fs.outputFile(path.join(projectRoot(), 'content/post.md'), [
+      '[![Desk](https://images.unsplash.com/photo-desk?w=800)](https://unsplash.com/photos/a-desk-by-a-window-deskPhoto01)',
+      '',
+      'Background: https://images.unsplash.com/photo-unknown',
+      'See https://unsplash.com/photos/missingPhoto.'
+    ].join('\n'));
+    // Generated attribution files list thumbnails without hotlinking them
+    await fs.outputFile(path.join(projectRoot(), 'unsplash-attributions.html'), '<img src="https://images.unsplash.com/photo-other">');
+
+    const report = await auditHotlinks(manager, projectRoot(), { lookupPhoto });
+
+    assert.strictEqual(report.sourceFiles, 2);
+    assert.strictEqual(report.found, 5);
+    assert.deepStrictEqual(lookups.sort(), ['deskPhoto01', 'missingPhoto']);
+    assert.deepStrictEqual(report.photos.map(({ id, added, hotlinks }) => ({ id, added, hotlinks })).sort((a, b) => a.id.localeCompare(b.id)), [
+      { id: 'deskPhoto01', added: true, hotlinks: [{ file: 'content/post.md', line: 1 }] },
+      { id: 'known', added: false, hotlinks: [{ file: 'src/Hero.tsx', line: 2 }] }
+    ]);
+    assert.deepStrictEqual(report.unresolved.map(({ file, line, reason }) => ({ file, line, reason: reason.split(/[;:]/)[0] })), [
+      { file: 'content/post.md', line: 3, reason: 'Image URLs do not name the photo' },
+      { file: 'content/post.md', line: 4, reason: 'Lookup failed' }
+    ]);
+
+    const desk = manager.getAttribution('deskPhoto01');
+    assert.strictEqual(desk?.photographer, 'Photographer deskPhoto01');
+    assert.strictEqual(desk?.projectFile, undefined);
+    assert.deepStrictEqual(desk?.hotlinks?.map(hotlink => hotlink.file), [path.join(projectRoot(), 'content/post.md')]);
+    assert.strictEqual(manager.getAttribution('known')?.projectFile, 'known.jpg');
+
+    // Stored relative to the project, and covered by the project's attributions
+    const stored = (await fs.readJson(manager.databasePath)).attributions.deskPhoto01;
+    assert.strictEqual(stored.hotlinks[0].file, 'content/post.md');
+    assert.deepStrictEqual(manager.getAttributionsForProject(projectRoot()).map(a => a.id).sort(), ['deskPhoto01', 'known']);
+  });
+
+  await t.test('should only report without looking up or saving when asked', async () => {
+    await fs.outputFile(path.join(projectRoot(), 'index.html'), '<a href="https://unsplash.com/photos/abc">Photo</a>');
+
+    const withoutLookup = await auditHotlinks(manager, projectRoot());
+    assert.match(withoutLookup.unresolved[0].reason, /Not in the attribution database/);
+
+    const dryRun = await auditHotlinks(manager, projectRoot(), { lookupPhoto, dryRun: true });
+    assert.deepStrictEqual(dryRun.photos.map(photo => photo.id), ['abc']);
+    assert.strictEqual(manager.getAttribution('abc'), null);
+  });
+
+  await t.test('should drop hotlinks the code no longer has', async () => {
+    const page = path.join(projectRoot(), 'index.html');
+    await fs.outputFile(page, '<a href="https://unsplash.com/photos/abc">Photo</a>');
+    await auditHotlinks(manager, projectRoot(), { lookupPhoto });
+    assert.strictEqual(manager.getAttribution('abc')?.hotlinks?.length, 1);
+
+    await fs.outputFile(page, '<p>No photos</p>');
+    const report = await auditHotlinks(manager, projectRoot(), { lookupPhoto });
+
+    assert.deepStrictEqual(report.stale, ['abc']);
+    assert.strictEqual(manager.getAttribution('abc')?.hotlinks, undefined);
+  });
+});
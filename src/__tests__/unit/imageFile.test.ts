@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { detectImageFormat, verifyImageFile, ImageVerificationError } from '../../imageFile.js';
+import { FIXTURE_JPEG, FIXTURE_PNG } from '../../mockUnsplashServer.js';
+
+test('imageFile', async (t) => {
+  let tempDir: string;
+
+  t.beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-image-test-'));
+  });
+
+  t.afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  const writeImage = async (name: string, contents: Buffer) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, contents);
+    return filePath;
+  };
+
+  await t.test('should detect formats from their signatures', () => {
+    assert.strictEqual(detectImageFormat(FIXTURE_JPEG), 'jpg');
+    assert.strictEqual(detectImageFormat(FIXTURE_PNG), 'png');
+    assert.strictEqual(detectImageFormat(Buffer.from('RIFF\x1a\x00\x00\x00WEBPVP8L', 'latin1')), 'webp');
+    assert.strictEqual(detectImageFormat(Buffer.from('<html></html>')), undefined);
+  });
+
+  await t.test('should accept complete images', async () => {
+    assert.strictEqual(await verifyImageFile(await writeImage('a.jpg', FIXTURE_JPEG)), 'jpg');
+    assert.strictEqual(await verifyImageFile(await writeImage('a.png', FIXTURE_PNG)), 'png');
+  });
+
+  await t.test('should reject truncated images and non-images', async () => {
+    await assert.rejects(
+      verifyImageFile(await writeImage('cut.jpg', FIXTURE_JPEG.subarray(0, 200))),
+      ImageVerificationError
+    );
+    await assert.rejects(
+      verifyImageFile(await writeImage('cut.png', FIXTURE_PNG.subarray(0, 40))),
+      ImageVerificationError
+    );
+    await assert.rejects(
+      verifyImageFile(await writeImage('cut.webp', Buffer.from('RIFF\xff\x00\x00\x00WEBPVP8L', 'latin1'))),
+      ImageVerificationError
+    );
+    await assert.rejects(
+      verifyImageFile(await writeImage('error.jpg', Buffer.from('{"errors":["Not found"]}'))),
+      ImageVerificationError
+    );
+  });
+});
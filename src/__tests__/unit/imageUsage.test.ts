@@ -0,0 +1,101 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import { AttributionManager } from '../../attributionManager.js';
+import { analyzeImageUsage } from '../../imageUsage.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('analyzeImageUsage', async (t) => {
+  const projectRoot = useTempDir(t, 'unsplash-usage-test');
+  let manager: AttributionManager;
+
+  const download = async (id: string, relativePath: string) => {
+    const file = path.join(projectRoot(), relativePath);
+    await fs.outputFile(file, `image ${id}`);
+    await manager.addAttribution(fakePhoto(id), file);
+  };
+
+  t.beforeEach(async () => {
+    manager = AttributionManager.forProject(projectRoot());
+  });
+
+  await t.test('should find used, unused and unattributed images', async () => {
+    await download('public', 'public/images/hero.jpg');
+    await download('import', 'src/assets/Team.PNG');
+    await download('alias', 'src/lib/images/card.webp');
+    await download('css', 'src/styles/bg.jpg');
+    await download('unused', 'public/images/spare.jpg');
+    // Same file name in another folder than the reference
+    await download('elsewhere', 'public/other/logo.png');
+    await fs.outputFile(path.join(projectRoot(), 'public/images/logo.png'), 'logo');
+
+    await fs.outputFile(path.join(projectRoot(), 'src/app/page.tsx'), [
+      "import team from '../assets/Team.PNG';",
+      '',
+      'export default () => <img src="/images/hero.jpg?w=800" srcSet="/images/logo.png 2x" />;'
+    ].join('\n'));
+    await fs.outputFile(path.join(projectRoot(), 'src/routes/+page.svelte'), '<img src="$lib/images/card.webp" alt="" />');
+    await fs.outputFile(path.join(projectRoot(), 'src/styles/main.css'), '.hero { background: url(./bg.jpg); }');
+    // Generated attribution files and build output list images without using them
+    await fs.outputFile(path.join(projectRoot(), 'unsplash-attributions.md'), '![spare](public/images/spare.jpg)');
+    await fs.outputFile(path.join(projectRoot(), 'dist/index.html'), '<img src="/images/spare.jpg">');
+
+    const report = await analyzeImageUsage(manager, projectRoot());
+
+    assert.strictEqual(report.sourceFiles, 3);
+    assert.strictEqual(report.tracked, 6);
+    assert.strictEqual(report.used, 4);
+    assert.deepStrictEqual(report.unused.map(image => image.file), ['public/images/spare.jpg', 'public/other/logo.png']);
+    assert.deepStrictEqual(report.unattributed, [
+      { file: 'public/images/logo.png', references: [{ file: 'src/app/page.tsx', line: 3 }] }
+    ]);
+    assert.deepStrictEqual(report.removed, []);
+    assert.ok(fs.existsSync(path.join(projectRoot(), 'public/images/spare.jpg')));
+  });
+
+  await t.test('should remove unused images and their records when asked', async () => {
+    await download('used', 'images/used.jpg');
+    await download('unused', 'images/unused.jpg');
+    await fs.outputFile(path.join(projectRoot(), 'README.md'), '![Used](images/used.jpg)');
+
+    const report = await analyzeImageUsage(manager, projectRoot(), { removeUnused: true });
+
+    assert.deepStrictEqual(report.removed, ['unused']);
+    assert.ok(!fs.existsSync(path.join(projectRoot(), 'images/unused.jpg')));
+    assert.strictEqual(manager.getAttribution('unused'), null);
+    assert.ok(manager.getAttribution('used'));
+  });
+
+  await t.test('should leave images in folders it does not search alone', async () => {
+    await download('hidden', '.vitepress/public/images/hero.jpg');
+    await download('built', 'dist/images/card.jpg');
+    await fs.outputFile(path.join(projectRoot(), 'src/index.md'), '![Hero](/images/hero.jpg)');
+
+    const report = await analyzeImageUsage(manager, projectRoot(), { removeUnused: true });
+
+    assert.strictEqual(report.tracked, 0);
+    assert.deepStrictEqual(report.unused, []);
+    assert.deepStrictEqual(report.removed, []);
+    assert.ok(fs.existsSync(path.join(projectRoot(), '.vitepress/public/images/hero.jpg')));
+    assert.ok(fs.existsSync(path.join(projectRoot(), 'dist/images/card.jpg')));
+    assert.ok(manager.getAttribution('hidden'));
+  });
+
+  await t.test('should leave sibling projects sharing the name alone', async () => {
+    const site = path.join(projectRoot(), 'site');
+    const sibling = path.join(projectRoot(), 'site-v2');
+    const global = new AttributionManager(path.join(projectRoot(), 'global.json'));
+    await fs.outputFile(path.join(site, 'images/a.jpg'), 'image a');
+    await fs.outputFile(path.join(sibling, 'images/b.jpg'), 'image b');
+    await global.addAttribution(fakePhoto('a'), path.join(site, 'images/a.jpg'));
+    await global.addAttribution(fakePhoto('b'), path.join(sibling, 'images/b.jpg'));
+
+    const report = await analyzeImageUsage(global, site, { removeUnused: true });
+
+    assert.strictEqual(report.tracked, 1);
+    assert.deepStrictEqual(report.removed, ['a']);
+    assert.ok(fs.existsSync(path.join(sibling, 'images/b.jpg')));
+    assert.ok(global.getAttribution('b'));
+  });
+});
@@ -0,0 +1,169 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import path from 'path';
+import type { Progress } from 'fastmcp';
+import { AttributionManager } from '../../attributionManager.js';
+import { PlannedDownload, downloadPhotos } from '../../photoDownloads.js';
+import { fakePhoto, useTempDir } from '../fixtures.js';
+
+test('downloadPhotos', async (t) => {
+  const projectRoot = useTempDir(t, 'unsplash-downloads-test');
+  let manager: AttributionManager;
+
+  const plan = (...ids: string[]): PlannedDownload[] =>
+    ids.map((id, index) => ({ photo: fakePhoto(id), index, fileName: `${id}.jpg` }));
+
+  // Writes the file after a delay, failing for photos named "broken"
+  const download = async ({ photo, fileName }: PlannedDownload) => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    if (photo.id === 'broken') {
+      throw new Error('Connection reset');
+    }
+    const file = path.join(projectRoot(), fileName);
+    await fs.outputFile(file, `image ${photo.id}`);
+    return file;
+  };
+
+  t.beforeEach(async () => {
+    manager = AttributionManager.forProject(projectRoot());
+  });
+
+  await t.test('should download in parallel up to the limit and report progress', async () => {
+    let running = 0;
+    let peak = 0;
+    const progress: Progress[] = [];
+
+    const { results, cancelled } = await downloadPhotos(plan('a', 'broken', 'c', 'd'), {
+      directory: projectRoot(),
+      concurrency: 2,
+      attributions: manager,
+      reportProgress: async (update) => {
+        progress.push(update);
+      },
+      download: async (planned) => {
+        running++;
+        peak = Math.max(peak, running);
+        try {
+          return await download(planned);
+        } finally {
+          running--;
+        }
+      }
+    });
+
+    assert.strictEqual(cancelled, false);
+    assert.strictEqual(peak, 2);
+    assert.deepStrictEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    assert.deepStrictEqual(progress.map(update => update.progress), [0, 1, 2, 3, 4]);
+    assert.ok(progress.every(update => update.total === 4));
+    assert.deepStrictEqual(manager.getAllAttributions().map(a => a.id).sort(), ['a', 'c', 'd']);
+  });
+
+  await t.test('should embed metadata before recording the attribution', async () => {
+    const embedded: string[] = [];
+
+    const { results } = await downloadPhotos(plan('a'), {
+      directory: projectRoot(),
+      concurrency: 1,
+      attributions: manager,
+      download,
+      embedMetadata: async (filePath, photo) => {
+        assert.strictEqual(manager.getAttribution(photo.id), null);
+        embedded.push(path.basename(filePath));
+        return true;
+      }
+    });
+
+    assert.deepStrictEqual(embedded, ['a.jpg']);
+    assert.strictEqual(results[0].status === 'fulfilled' && results[0].value.metadataAdded, true);
+  });
+
+  await t.test('should report downloads whose attribution could not be recorded', async () => {
+    // Written by a newer version, so this one will not change it
+    await fs.outputJson(manager.databasePath, { attributions: {}, version: '99.0.0' });
+
+    const { results } = await downloadPhotos(plan('a'), { directory: projectRoot(), concurrency: 1, attributions: manager, download });
+
+    assert.strictEqual(results[0].status, 'fulfilled');
+    assert.match(results[0].status === 'fulfilled' ? results[0].value.attributionError ?? '' : '', /newer version/);
+    assert.ok(fs.existsSync(path.join(projectRoot(), 'a.jpg')));
+  });
+
+  await t.test('should remove what it created when cancelled', async () => {
+    const controller = new AbortController();
+    await manager.addAttribution(fakePhoto('existing'), path.join(projectRoot(), 'existing.jpg'));
+
+    const { cancelled, removedFiles } = await downloadPhotos(plan('a', 'b', 'c'), {
+      directory: projectRoot(),
+      concurrency: 1,
+      attributions: manager,
+      signal: controller.signal,
+      download: async (planned) => {
+        if (planned.photo.id === 'b') {
+          controller.abort();
+        }
+        return download(planned);
+      }
+    });
+
+    assert.strictEqual(cancelled, true);
+    assert.strictEqual(removedFiles, 2);
+    assert.deepStrictEqual(await fs.readdir(projectRoot()), ['.unsplash']);
+    assert.deepStrictEqual(manager.getAllAttributions().map(a => a.id), ['existing']);
+  });
+
+  await t.test('should restore the files and records it overwrote when cancelled after a partial batch', async () => {
+    const controller = new AbortController();
+    const earlier = path.join(projectRoot(), 'a.jpg');
+    await fs.outputFile(earlier, 'earlier image a');
+    await manager.addAttribution(fakePhoto('a', { user: { name: 'Earlier Name', username: 'a' } }), earlier);
+    // Downloaded before under another name, and recorded again by this batch
+    await manager.addAttribution(fakePhoto('b'), path.join(projectRoot(), 'old-b.jpg'));
+
+    const { results, cancelled } = await downloadPhotos(plan('a', 'b', 'c', 'd'), {
+      directory: projectRoot(),
+      concurrency: 1,
+      attributions: manager,
+      signal: controller.signal,
+      download: async (planned) => {
+        const file = await download(planned);
+        if (planned.photo.id === 'c') {
+          controller.abort();
+        }
+        return file;
+      }
+    });
+
+    assert.strictEqual(cancelled, true);
+    assert.deepStrictEqual(results.map(result => result.status), ['fulfilled', 'fulfilled', 'fulfilled', 'rejected']);
+    assert.strictEqual(await fs.readFile(earlier, 'utf8'), 'earlier image a');
+    assert.ok(!fs.existsSync(path.join(projectRoot(), 'b.jpg')));
+    assert.ok(!fs.existsSync(path.join(projectRoot(), 'c.jpg')));
+    assert.strictEqual(manager.getAttribution('a')?.photographer, 'Earlier Name');
+    assert.strictEqual(manager.getAttribution('b')?.projectFile, 'old-b.jpg');
+    assert.strictEqual(manager.getAttribution('c'), null);
+  });
+
+  await t.test('should restore files replaced in another format than planned when cancelled', async () => {
+    const controller = new AbortController();
+    const earlier = path.join(projectRoot(), 'a.png');
+    await fs.outputFile(earlier, 'earlier image a');
+
+    const { cancelled } = await downloadPhotos(plan('a'), {
+      directory: projectRoot(),
+      concurrency: 1,
+      attributions: manager,
+      signal: controller.signal,
+      // Planned as a.jpg, but served as PNG
+      download: async () => {
+        await fs.outputFile(earlier, 'image a');
+        controller.abort();
+        return earlier;
+      }
+    });
+
+    assert.strictEqual(cancelled, true);
+    assert.strictEqual(await fs.readFile(earlier, 'utf8'), 'earlier image a');
+  });
+});
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { detectProject, publicImageUrl, FRAMEWORK_PROFILES } from '../../projectDetection.js';
+
+test('detectProject', async (t) => {
+  let projectDir: string;
+
+  t.beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-project-test-'));
+  });
+
+  t.afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  const setup = async (files: Record<string, string | object>) => {
+    for (const [file, contents] of Object.entries(files)) {
+      const filePath = path.join(projectDir, file);
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+    }
+  };
+
+  const withDependencies = (...names: string[]) => ({
+    dependencies: Object.fromEntries(names.map(name => [name, '*']))
+  });
+
+  await t.test('should prefer meta-frameworks over the tools they build on', async () => {
+    await setup({
+      'package.json': withDependencies('@sveltejs/kit', 'svelte', 'vite'),
+      'svelte.config.js': '',
+      'vite.config.ts': ''
+    });
+
+    const project = detectProject(projectDir);
+    assert.strictEqual(project.framework, 'sveltekit');
+    assert.strictEqual(project.profile.assetDir, 'static/images');
+    assert.deepStrictEqual(project.evidence, ['svelte.config.js', '@sveltejs/kit']);
+  });
+
+  await t.test('should detect frameworks from dependencies and config files', async () => {
+    const cases: Array<[Record<string, string | object>, string]> = [
+      [{ 'package.json': withDependencies('nuxt', 'vue') }, 'nuxt'],
+      [{ 'package.json': withDependencies('astro') }, 'astro'],
+      [{ 'package.json': withDependencies('@remix-run/react', 'react') }, 'remix'],
+      [{ 'gatsby-config.js': '', 'package.json': withDependencies('react') }, 'gatsby'],
+      [{ 'package.json': withDependencies('next', 'react') }, 'next'],
+      [{ 'package.json': withDependencies('vue', 'vite') }, 'vue'],
+      [{ 'package.json': withDependencies('vite'), 'vite.config.js': '' }, 'vite'],
+      [{ 'package.json': withDependencies('react') }, 'react'],
+      [{ 'hugo.toml': 'baseURL = "https://example.org/"' }, 'hugo'],
+      [{}, 'generic']
+    ];
+
+    for (const [files, expected] of cases) {
+      await fs.emptyDir(projectDir);
+      await setup(files);
+      assert.strictEqual(detectProject(projectDir).framework, expected, JSON.stringify(files));
+    }
+  });
+
+  await t.test('should use the public folder for newer Angular workspaces', async () => {
+    await setup({ 'angular.json': {}, 'public/favicon.ico': '' });
+
+    const project = detectProject(projectDir);
+    assert.strictEqual(project.framework, 'angular');
+    assert.strictEqual(project.profile.assetDir, 'public/images');
+  });
+
+  await t.test('should map public asset paths to site URLs', () => {
+    assert.strictEqual(publicImageUrl(FRAMEWORK_PROFILES.next, 'public/images/hero.jpg'), '/images/hero.jpg');
+    assert.strictEqual(publicImageUrl(FRAMEWORK_PROFILES.angular, 'src/assets/images/hero.jpg'), '/assets/images/hero.jpg');
+    assert.strictEqual(publicImageUrl(FRAMEWORK_PROFILES.astro, 'src/assets/images/hero.jpg'), undefined);
+  });
+});
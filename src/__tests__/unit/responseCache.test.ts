@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ResponseCache } from '../../responseCache.js';
+
+test('ResponseCache', async (t) => {
+  let cacheDir: string;
+
+  t.beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-cache-test-'));
+  });
+
+  t.afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  await t.test('should build the same key regardless of parameter order', () => {
+    assert.strictEqual(
+      ResponseCache.createKey('/search/photos', { query: 'office', page: 1, per_page: undefined }),
+      ResponseCache.createKey('/search/photos', { page: 1, query: 'office' })
+    );
+  });
+
+  await t.test('should return stored responses and count hits and misses', async () => {
+    const cache = new ResponseCache(cacheDir, { ttlSeconds: 60, maxEntries: 10, maxBytes: 1024 * 1024 });
+
+    assert.strictEqual(await cache.get('a'), undefined);
+    await cache.set('a', { value: 1 });
+    assert.deepStrictEqual(await cache.get('a'), { value: 1 });
+
+    const stats = await cache.getStats();
+    assert.strictEqual(stats.hits, 1);
+    assert.strictEqual(stats.misses, 1);
+    assert.strictEqual(stats.entries, 1);
+  });
+
+  await t.test('should treat expired entries as misses', async () => {
+    const cache = new ResponseCache(cacheDir, { ttlSeconds: 0, maxEntries: 10, maxBytes: 1024 * 1024 });
+
+    await cache.set('a', { value: 1 });
+    assert.strictEqual(await cache.get('a'), undefined);
+    assert.strictEqual((await cache.getStats()).entries, 0);
+  });
+
+  await t.test('should evict the oldest entries beyond the entry limit', async () => {
+    const cache = new ResponseCache(cacheDir, { ttlSeconds: 60, maxEntries: 2, maxBytes: 1024 * 1024 });
+
+    for (const key of ['a', 'b', 'c']) {
+      await cache.set(key, { key });
+      // Make sure the modification times differ between entries
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    assert.strictEqual((await cache.getStats()).entries, 2);
+    assert.strictEqual(await cache.get('a'), undefined);
+    assert.deepStrictEqual(await cache.get('c'), { key: 'c' });
+  });
+
+  await t.test('should remove every entry when cleared', async () => {
+    const cache = new ResponseCache(cacheDir, { ttlSeconds: 60, maxEntries: 10, maxBytes: 1024 * 1024 });
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    assert.strictEqual(await cache.clear(), 2);
+    assert.strictEqual((await cache.getStats()).entries, 0);
+  });
+});
@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { loadSettings, projectTemplateFor, userSettingsPath } from '../../settings.js';
+
+test('loadSettings', async (t) => {
+  const originalHome = process.env.HOME;
+  let homeDir: string;
+  let projectDir: string;
+
+  t.beforeEach(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-home-test-'));
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-settings-test-'));
+    process.env.HOME = homeDir;
+  });
+
+  t.afterEach(async () => {
+    process.env.HOME = originalHome;
+    await fs.remove(homeDir);
+    await fs.remove(projectDir);
+  });
+
+  await t.test('should fall back to the defaults without settings files', () => {
+    const settings = loadSettings(projectDir, {});
+
+    assert.strictEqual(settings.attributionSettings.databasePath, path.join(homeDir, '.unsplash-mcp', 'unsplash-attributions.json'));
+    assert.strictEqual(settings.download.defaultDir, path.join(homeDir, 'Downloads', 'stock-photos'));
+    assert.strictEqual(settings.download.onCollision, 'suffix');
+    assert.deepStrictEqual(settings.attributionSettings.metadataFormats, ['XMP', 'IPTC', 'EXIF']);
+    assert.strictEqual(settings.server.transport, 'stdio');
+  });
+
+  await t.test('should layer the user file, the project file and the environment', async () => {
+    await fs.outputJson(userSettingsPath(), {
+      attributionSettings: { metadataFormats: ['XMP'] },
+      download: { concurrency: 5, onCollision: 'skip' },
+      projectTemplates: { nextjs: { attributionPath: 'public/attributions' } }
+    });
+    await fs.outputJson(path.join(projectDir, '.unsplashrc'), {
+      attributionSettings: { databasePath: '.unsplash' },
+      download: { onCollision: 'overwrite', defaultDir: 'assets/photos' }
+    });
+
+    const settings = loadSettings(projectDir, { UNSPLASH_DOWNLOAD_CONCURRENCY: '7', ENABLE_METADATA: 'false', PORT: '' });
+
+    assert.strictEqual(settings.download.concurrency, 7);
+    assert.strictEqual(settings.download.onCollision, 'overwrite');
+    // Paths in the project file are relative to the project
+    assert.strictEqual(settings.download.defaultDir, path.join(projectDir, 'assets', 'photos'));
+    assert.strictEqual(settings.attributionSettings.databasePath, path.join(projectDir, '.unsplash'));
+    assert.strictEqual(settings.attributionSettings.enableMetadata, false);
+    assert.deepStrictEqual(settings.attributionSettings.metadataFormats, ['XMP']);
+    assert.strictEqual(settings.server.port, 3000);
+    assert.strictEqual(projectTemplateFor(settings, 'next')?.attributionPath, 'public/attributions');
+  });
+
+  await t.test('should report invalid values with their source', async () => {
+    await fs.outputJson(path.join(projectDir, '.unsplashrc'), { download: { concurrency: 50 } });
+    assert.throws(() => loadSettings(projectDir, {}), /\.unsplashrc: download\.concurrency/);
+
+    await fs.remove(path.join(projectDir, '.unsplashrc'));
+    assert.throws(() => loadSettings(projectDir, { ENABLE_METADATA: 'maybe' }), /ENABLE_METADATA/);
+    assert.throws(() => loadSettings(projectDir, { METADATA_FORMATS: 'XMP,PNG' }), /attributionSettings\.metadataFormats/);
+  });
+});
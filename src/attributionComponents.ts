@@ -0,0 +1,375 @@
+import type { Attribution } from './attributionManager.js';
+import { safeUrl } from './attributionHtml.js';
+
+export const COMPONENT_FORMATS = ['react', 'vue', 'angular', 'svelte', 'web-component'] as const;
+
+export type ComponentFormat = typeof COMPONENT_FORMATS[number];
+
+// File written when no component path is configured
+export const COMPONENT_FILE_NAMES: Record<ComponentFormat, string> = {
+  react: 'ImageAttribution.tsx',
+  vue: 'ImageAttribution.vue',
+  angular: 'image-attribution.component.ts',
+  svelte: 'ImageAttribution.svelte',
+  'web-component': 'image-attribution.js'
+};
+
+// How each format is described in messages
+export const COMPONENT_LABELS: Record<ComponentFormat, string> = {
+  react: 'React component',
+  vue: 'Vue component',
+  angular: 'Angular component',
+  svelte: 'Svelte component',
+  'web-component': 'custom element'
+};
+
+/**
+ * Source of an attribution component with the given attributions built in.
+ * Every component credits one photo by `photoId`, or lists all credits with `showAll`.
+ */
+export function generateAttributionComponent(format: ComponentFormat, attributions: Attribution[]): string {
+  const data = attributionData(attributions);
+  switch (format) {
+    case 'react':
+      return reactComponent(data);
+    case 'vue':
+      return vueComponent(data);
+    case 'angular':
+      return angularComponent(data);
+    case 'svelte':
+      return svelteComponent(data);
+    case 'web-component':
+      return webComponent(data);
+  }
+}
+
+// Attributions by photo ID as a JS literal; "<" is escaped so a name cannot close a <script> block.
+// Only the fields of the components' Attribution type are kept, so typed components compile.
+// Links are made safe here, since not every framework refuses javascript: URLs in an href.
+function attributionData(attributions: Attribution[]): string {
+  const byId = Object.fromEntries(attributions.map(attribution => [attribution.id, {
+    id: attribution.id,
+    photographer: attribution.photographer,
+    photographerUrl: attribution.photographerUrl && safeUrl(attribution.photographerUrl),
+    source: attribution.source,
+    sourceUrl: safeUrl(attribution.sourceUrl),
+    license: attribution.license,
+    downloadDate: attribution.downloadDate,
+    projectPath: attribution.projectPath,
+    projectFile: attribution.projectFile
+  }]));
+  return JSON.stringify(byId, null, 2).replace(/</g, '\\u003c');
+}
+
+const ATTRIBUTION_TYPE = `{
+  id: string;
+  photographer: string;
+  photographerUrl?: string;
+  source: string;
+  sourceUrl: string;
+  license: string;
+  downloadDate: string;
+  projectPath?: string;
+  projectFile?: string;
+}`;
+
+function reactComponent(data: string): string {
+  return `import React from 'react';
+
+type Attribution = ${ATTRIBUTION_TYPE};
+
+export type ImageAttributionProps = {
+  // Photo to credit
+  photoId?: string;
+  // List the credits for every photo instead
+  showAll?: boolean;
+  className?: string;
+};
+
+const attributions: Record<string, Attribution> = ${data};
+
+const Credit: React.FC<{ attribution: Attribution }> = ({ attribution }) => (
+  <>
+    Photo by{' '}
+    <a href={attribution.photographerUrl} target="_blank" rel="noopener noreferrer">
+      {attribution.photographer}
+    </a>
+    {' '}on{' '}
+    <a href={attribution.sourceUrl} target="_blank" rel="noopener noreferrer">
+      {attribution.source}
+    </a>
+  </>
+);
+
+export const ImageAttribution: React.FC<ImageAttributionProps> = ({ photoId, showAll = false, className }) => {
+  if (showAll) {
+    const credits = Object.values(attributions);
+    if (credits.length === 0) {
+      return null;
+    }
+
+    return (
+      <ul className={className || 'image-attribution-list'}>
+        {credits.map(attribution => (
+          <li key={attribution.id}>
+            <Credit attribution={attribution} />
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const attribution = photoId ? attributions[photoId] : undefined;
+  if (!attribution) {
+    return null;
+  }
+
+  return (
+    <div className={className || 'image-attribution'}>
+      <p>
+        <Credit attribution={attribution} />
+      </p>
+    </div>
+  );
+};
+`;
+}
+
+function vueComponent(data: string): string {
+  return `<script setup lang="ts">
+import { computed } from 'vue';
+
+interface Attribution ${ATTRIBUTION_TYPE}
+
+const props = withDefaults(defineProps<{
+  // Photo to credit
+  photoId?: string;
+  // List the credits for every photo instead
+  showAll?: boolean;
+  className?: string;
+}>(), {
+  showAll: false
+});
+
+const attributions: Record<string, Attribution> = ${data};
+
+const credits = computed<Attribution[]>(() => {
+  if (props.showAll) {
+    return Object.values(attributions);
+  }
+  const attribution = props.photoId ? attributions[props.photoId] : undefined;
+  return attribution ? [attribution] : [];
+});
+</script>
+
+<template>
+  <ul v-if="showAll && credits.length > 0" :class="className || 'image-attribution-list'">
+    <li v-for="attribution in credits" :key="attribution.id">
+      Photo by
+      <a :href="attribution.photographerUrl" target="_blank" rel="noopener noreferrer">{{ attribution.photographer }}</a>
+      on
+      <a :href="attribution.sourceUrl" target="_blank" rel="noopener noreferrer">{{ attribution.source }}</a>
+    </li>
+  </ul>
+  <div v-else-if="credits.length > 0" :class="className || 'image-attribution'">
+    <p>
+      Photo by
+      <a :href="credits[0].photographerUrl" target="_blank" rel="noopener noreferrer">{{ credits[0].photographer }}</a>
+      on
+      <a :href="credits[0].sourceUrl" target="_blank" rel="noopener noreferrer">{{ credits[0].source }}</a>
+    </p>
+  </div>
+</template>
+`;
+}
+
+function angularComponent(data: string): string {
+  return `import { Component, Input } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+
+export interface Attribution ${ATTRIBUTION_TYPE}
+
+const ATTRIBUTIONS: Record<string, Attribution> = ${data};
+
+@Component({
+  selector: 'app-image-attribution',
+  standalone: true,
+  imports: [NgFor, NgIf],
+  template: \`
+    <ul *ngIf="showAll; else single" [class]="className || 'image-attribution-list'">
+      <li *ngFor="let attribution of credits; trackBy: trackById">
+        Photo by
+        <a [href]="attribution.photographerUrl" target="_blank" rel="noopener noreferrer">{{ attribution.photographer }}</a>
+        on
+        <a [href]="attribution.sourceUrl" target="_blank" rel="noopener noreferrer">{{ attribution.source }}</a>
+      </li>
+    </ul>
+    <ng-template #single>
+      <div *ngIf="attribution as credit" [class]="className || 'image-attribution'">
+        <p>
+          Photo by
+          <a [href]="credit.photographerUrl" target="_blank" rel="noopener noreferrer">{{ credit.photographer }}</a>
+          on
+          <a [href]="credit.sourceUrl" target="_blank" rel="noopener noreferrer">{{ credit.source }}</a>
+        </p>
+      </div>
+    </ng-template>
+  \`
+})
+export class ImageAttributionComponent {
+  // Photo to credit
+  @Input() photoId?: string;
+  // List the credits for every photo instead
+  @Input() showAll = false;
+  @Input() className?: string;
+
+  get attribution(): Attribution | undefined {
+    return this.photoId ? ATTRIBUTIONS[this.photoId] : undefined;
+  }
+
+  get credits(): Attribution[] {
+    return Object.values(ATTRIBUTIONS);
+  }
+
+  trackById(_index: number, attribution: Attribution): string {
+    return attribution.id;
+  }
+}
+`;
+}
+
+function svelteComponent(data: string): string {
+  return `<script lang="ts">
+  interface Attribution ${ATTRIBUTION_TYPE.replace(/\n/g, '\n  ')}
+
+  // Photo to credit
+  export let photoId: string | undefined = undefined;
+  // List the credits for every photo instead
+  export let showAll = false;
+  export let className: string | undefined = undefined;
+
+  const attributions: Record<string, Attribution> = ${data.replace(/\n/g, '\n  ')};
+
+  $: credits = showAll
+    ? Object.values(attributions)
+    : photoId && attributions[photoId] ? [attributions[photoId]] : [];
+</script>
+
+{#if showAll && credits.length > 0}
+  <ul class={className || 'image-attribution-list'}>
+    {#each credits as attribution (attribution.id)}
+      <li>
+        Photo by
+        <a href={attribution.photographerUrl} target="_blank" rel="noopener noreferrer">{attribution.photographer}</a>
+        on
+        <a href={attribution.sourceUrl} target="_blank" rel="noopener noreferrer">{attribution.source}</a>
+      </li>
+    {/each}
+  </ul>
+{:else if credits.length > 0}
+  <div class={className || 'image-attribution'}>
+    <p>
+      Photo by
+      <a href={credits[0].photographerUrl} target="_blank" rel="noopener noreferrer">{credits[0].photographer}</a>
+      on
+      <a href={credits[0].sourceUrl} target="_blank" rel="noopener noreferrer">{credits[0].source}</a>
+    </p>
+  </div>
+{/if}
+`;
+}
+
+function webComponent(data: string): string {
+  return `/**
+ * <image-attribution photo-id="..."></image-attribution> credits one photo,
+ * <image-attribution show-all></image-attribution> lists the credits for every photo.
+ *
+ * @typedef {Object} Attribution
+ * @property {string} id
+ * @property {string} photographer
+ * @property {string} [photographerUrl]
+ * @property {string} source
+ * @property {string} sourceUrl
+ * @property {string} license
+ * @property {string} downloadDate
+ * @property {string} [projectPath]
+ * @property {string} [projectFile]
+ */
+
+/** @type {Record<string, Attribution>} */
+const attributions = ${data};
+
+export class ImageAttributionElement extends HTMLElement {
+  static observedAttributes = ['photo-id', 'show-all'];
+
+  /** Photo to credit @type {string | null} */
+  get photoId() {
+    return this.getAttribute('photo-id');
+  }
+
+  set photoId(value) {
+    if (value == null) {
+      this.removeAttribute('photo-id');
+    } else {
+      this.setAttribute('photo-id', value);
+    }
+  }
+
+  /** List the credits for every photo instead @type {boolean} */
+  get showAll() {
+    return this.hasAttribute('show-all');
+  }
+
+  set showAll(value) {
+    this.toggleAttribute('show-all', Boolean(value));
+  }
+
+  connectedCallback() {
+    this.render();
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  render() {
+    const photo = this.photoId ? attributions[this.photoId] : undefined;
+    const credits = this.showAll ? Object.values(attributions) : photo ? [photo] : [];
+    if (credits.length === 0) {
+      this.replaceChildren();
+      return;
+    }
+
+    const container = document.createElement(this.showAll ? 'ul' : 'p');
+    container.className = this.showAll ? 'image-attribution-list' : 'image-attribution';
+    for (const attribution of credits) {
+      const line = this.showAll ? container.appendChild(document.createElement('li')) : container;
+      line.append(
+        'Photo by ',
+        createLink(attribution.photographerUrl, attribution.photographer),
+        ' on ',
+        createLink(attribution.sourceUrl, attribution.source)
+      );
+    }
+    this.replaceChildren(container);
+  }
+}
+
+/**
+ * @param {string | undefined} href
+ * @param {string} text
+ */
+function createLink(href, text) {
+  const link = document.createElement('a');
+  link.href = href || '#';
+  link.target = '_blank';
+  link.rel = 'noopener noreferrer';
+  link.textContent = text;
+  return link;
+}
+
+if (!customElements.get('image-attribution')) {
+  customElements.define('image-attribution', ImageAttributionElement);
+}
+`;
+}
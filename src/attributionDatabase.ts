@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { z } from 'zod';
+import type { Attribution } from './attributionManager.js';
+
+export interface AttributionDatabase {
+  attributions: Record<string, Attribution>;
+  version: string;
+}
+
+export interface LoadedDatabase {
+  db: AttributionDatabase;
+  // The database file was unreadable, so the backup (or an empty database) was loaded instead
+  recovered: boolean;
+  // Written by a newer version, so rewriting it could lose data
+  readOnly: boolean;
+}
+
+export interface FileLockOptions {
+  // How long to wait for another process to release the lock
+  timeoutMs?: number;
+  // Age after which a lock is assumed to be left over from a crashed process
+  staleMs?: number;
+}
+
+// Thrown when the attribution database cannot be safely written
+export class AttributionDatabaseError extends Error {}
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate(db: AttributionDatabase): AttributionDatabase;
+}
+
+// Each migration upgrades a database by one version. Add new ones at the end.
+const MIGRATIONS: Migration[] = [
+  {
+    // Early and hand-written records could leave out fields that are now required
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: db => ({
+      version: '1.1.0',
+      attributions: Object.fromEntries(Object.entries(db.attributions).map(([key, record]) => {
+        const date = new Date(record.downloadDate);
+        const attribution: Attribution = {
+          ...record,
+          id: record.id || key,
+          source: record.source || 'Unsplash',
+          license: record.license || 'Unsplash License',
+          downloadDate: Number.isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString()
+        };
+        return [attribution.id, attribution];
+      }))
+    })
+  }
+];
+
+// Version written by this release
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+const DATABASE_VERSIONS = [MIGRATIONS[0].from, ...MIGRATIONS.map(migration => migration.to)];
+
+// Only the outline is checked, so records keep fields added by newer versions
+const StoredDatabaseSchema = z.object({
+  version: z.string().optional(),
+  attributions: z.record(z.object({}).passthrough())
+});
+
+export function emptyDatabase(): AttributionDatabase {
+  return { attributions: {}, version: DATABASE_VERSION };
+}
+
+export function backupPathFor(dbPath: string): string {
+  return `${dbPath}.bak`;
+}
+
+/**
+ * Upgrade a database to the current version. Databases from an unknown (newer) version
+ * are returned unchanged and marked read-only.
+ */
+export function migrateDatabase(db: AttributionDatabase): { db: AttributionDatabase; readOnly: boolean } {
+  let migrated = { ...db, version: db.version ?? '1.0.0' };
+  if (!DATABASE_VERSIONS.includes(migrated.version)) {
+    return { db: migrated, readOnly: true };
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.from === migrated.version) {
+      migrated = migration.migrate(migrated);
+    }
+  }
+  return { db: migrated, readOnly: false };
+}
+
+/**
+ * Read and migrate a database file. An unreadable file is replaced by its backup,
+ * or by an empty database when there is no usable backup either.
+ */
+export function loadDatabase(dbPath: string): LoadedDatabase {
+  if (!fs.existsSync(dbPath)) {
+    return { db: emptyDatabase(), recovered: false, readOnly: false };
+  }
+
+  try {
+    return { ...parseDatabase(fs.readFileSync(dbPath, 'utf8')), recovered: false };
+  } catch (error) {
+    const backupPath = backupPathFor(dbPath);
+    console.warn(`Attribution database ${dbPath} is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+
+    if (fs.existsSync(backupPath)) {
+      try {
+        const backup = parseDatabase(fs.readFileSync(backupPath, 'utf8'));
+        console.warn(`Recovered ${Object.keys(backup.db.attributions).length} attributions from ${backupPath}`);
+        return { ...backup, recovered: true };
+      } catch (backupError) {
+        console.warn(`Attribution database backup ${backupPath} is unreadable too: ${backupError instanceof Error ? backupError.message : String(backupError)}`);
+      }
+    }
+    return { db: emptyDatabase(), recovered: true, readOnly: false };
+  }
+}
+
+/**
+ * Write a database file atomically: the new contents go to a temporary file that replaces
+ * the database only once fully written. The previous database is kept as a backup, unless it
+ * was unreadable, in which case it is set aside for inspection and the backup is left alone.
+ */
+export function writeDatabase(dbPath: string, db: AttributionDatabase, recovered = false): void {
+  fs.ensureDirSync(path.dirname(dbPath));
+
+  if (fs.existsSync(dbPath)) {
+    if (recovered) {
+      fs.renameSync(dbPath, `${dbPath}.corrupt-${Date.now()}`);
+    } else {
+      fs.copyFileSync(dbPath, backupPathFor(dbPath));
+    }
+  }
+
+  const tempPath = `${dbPath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, JSON.stringify(db, null, 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, dbPath);
+}
+
+/**
+ * Run a function while holding a lock file next to the given file, so other processes
+ * using the same file wait for it. Locks left by crashed processes are cleared.
+ * Waiting blocks the event loop, so this is only for scripts; the server uses withFileLockAsync.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): T {
+  const lock = new FileLock(filePath, options);
+  while (!lock.tryAcquire()) {
+    sleepSync(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Like withFileLock, but waits for the lock with a timer so other work goes on meanwhile
+ */
+export async function withFileLockAsync<T>(filePath: string, fn: () => T | Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const lock = new FileLock(filePath, options);
+  while (!lock.tryAcquire()) {
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    lock.release();
+  }
+}
+
+const LOCK_RETRY_MS = 25;
+
+class FileLock {
+  private lockPath: string;
+  private deadline: number;
+  private staleMs: number;
+  // Unique to this holder, so only its own lock is ever released
+  private contents = JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString(), token: randomUUID() });
+
+  constructor(filePath: string, { timeoutMs = 2000, staleMs = 30000 }: FileLockOptions) {
+    this.lockPath = `${filePath}.lock`;
+    this.deadline = Date.now() + timeoutMs;
+    this.staleMs = staleMs;
+    fs.ensureDirSync(path.dirname(filePath));
+  }
+
+  // Take the lock if it is free or stale; false means another process holds it
+  tryAcquire(): boolean {
+    while (true) {
+      try {
+        fs.writeFileSync(this.lockPath, this.contents, { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        const stale = staleLockContents(this.lockPath, this.staleMs);
+        if (stale !== undefined) {
+          clearStaleLock(this.lockPath, stale);
+          continue;
+        }
+        if (Date.now() >= this.deadline) {
+          throw new AttributionDatabaseError(`Timed out waiting for another process to release ${this.lockPath}. If no other process is using the database, delete the lock file.`);
+        }
+        return false;
+      }
+    }
+  }
+
+  release(): void {
+    // Taken over as stale if the holder ran for too long, and then no longer ours to remove
+    if (readLock(this.lockPath) === this.contents) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+}
+
+function readLock(lockPath: string): string | undefined {
+  try {
+    return fs.readFileSync(lockPath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+// The contents of a stale lock: its process is gone, or it is older than any write should take
+function staleLockContents(lockPath: string, staleMs: number): string | undefined {
+  const contents = readLock(lockPath);
+  if (contents === undefined) {
+    return undefined;
+  }
+  try {
+    const { pid } = JSON.parse(contents) as { pid?: number };
+    if (pid && pid !== process.pid && !isProcessRunning(pid)) {
+      return contents;
+    }
+  } catch {
+    // Unreadable while its owner is still writing it
+  }
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > staleMs ? contents : undefined;
+  } catch {
+    // Already released
+    return undefined;
+  }
+}
+
+/**
+ * Remove a stale lock without racing other waiting processes. Renaming it away is atomic, so
+ * only one of them gets it. A lock that is no longer the stale one, because its owner released
+ * it and another process took it in the meantime, is put back.
+ */
+function clearStaleLock(lockPath: string, staleContents: string): void {
+  const claimedPath = `${lockPath}.${process.pid}.${randomUUID()}`;
+  try {
+    fs.renameSync(lockPath, claimedPath);
+  } catch {
+    // Cleared by another process first
+    return;
+  }
+  if (readLock(claimedPath) !== staleContents) {
+    try {
+      fs.linkSync(claimedPath, lockPath);
+    } catch {
+      // Locked again already
+    }
+  }
+  fs.rmSync(claimedPath, { force: true });
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function parseDatabase(text: string): { db: AttributionDatabase; readOnly: boolean } {
+  return migrateDatabase(StoredDatabaseSchema.parse(JSON.parse(text)) as unknown as AttributionDatabase);
+}
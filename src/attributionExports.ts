@@ -0,0 +1,201 @@
+import path from 'path';
+import type { Attribution } from './attributionManager.js';
+
+export const EXPORT_FORMATS = ['markdown', 'credits', 'csv', 'jsonld'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// File written for each format when no file name is given
+export const EXPORT_FILE_NAMES: Record<ExportFormat, string> = {
+  markdown: 'unsplash-attributions.md',
+  credits: 'CREDITS',
+  csv: 'unsplash-attributions.csv',
+  jsonld: 'unsplash-attributions.jsonld'
+};
+
+export const ATTRIBUTION_KEYS = ['file', 'photographer', 'date'] as const;
+
+// What attributions are grouped and sorted by
+export type AttributionKey = typeof ATTRIBUTION_KEYS[number];
+
+export interface AttributionOrder {
+  // Put attributions under a heading per file, photographer or download day
+  groupBy?: AttributionKey;
+  // Order within each group, by file by default
+  sortBy?: AttributionKey;
+}
+
+export interface AttributionGroup {
+  // Heading for the group, or undefined when attributions are not grouped
+  label?: string;
+  attributions: Attribution[];
+}
+
+const UNSPLASH_LICENSE_URL = 'https://unsplash.com/license';
+
+/**
+ * Group and sort attributions. Groups and their entries are in ascending order,
+ * so dates run from oldest to newest.
+ */
+export function groupAttributions(attributions: Attribution[], order: AttributionOrder = {}): AttributionGroup[] {
+  const sorted = [...attributions].sort((a, b) =>
+    compareBy(a, b, order.groupBy) || compareBy(a, b, order.sortBy ?? 'file') || a.id.localeCompare(b.id)
+  );
+
+  if (!order.groupBy) {
+    return [{ attributions: sorted }];
+  }
+
+  const groups = new Map<string, Attribution[]>();
+  for (const attribution of sorted) {
+    const label = keyOf(attribution, order.groupBy);
+    groups.set(label, [...(groups.get(label) ?? []), attribution]);
+  }
+  return [...groups].map(([label, entries]) => ({ label, attributions: entries }));
+}
+
+/**
+ * Attributions sorted the way groupAttributions would list them
+ */
+export function orderAttributions(attributions: Attribution[], order: AttributionOrder = {}): Attribution[] {
+  return groupAttributions(attributions, order).flatMap(group => group.attributions);
+}
+
+/**
+ * Render attributions in an export format
+ */
+export function exportAttributions(format: ExportFormat, attributions: Attribution[], order: AttributionOrder = {}): string {
+  switch (format) {
+    case 'markdown':
+      return markdownCredits(groupAttributions(attributions, order));
+    case 'credits':
+      return textCredits(groupAttributions(attributions, order));
+    case 'csv':
+      return csvCredits(orderAttributions(attributions, order));
+    case 'jsonld':
+      return jsonLdCredits(orderAttributions(attributions, order));
+  }
+}
+
+function keyOf(attribution: Attribution, key: AttributionKey): string {
+  switch (key) {
+    case 'file':
+      return fileOf(attribution);
+    case 'photographer':
+      return attribution.photographer;
+    case 'date':
+      return attribution.downloadDate.slice(0, 10);
+  }
+}
+
+function compareBy(a: Attribution, b: Attribution, key?: AttributionKey): number {
+  if (!key) {
+    return 0;
+  }
+  // Full timestamps, so photos from the same day keep their download order
+  return key === 'date'
+    ? a.downloadDate.localeCompare(b.downloadDate)
+    : keyOf(a, key).localeCompare(keyOf(b, key), undefined, { sensitivity: 'base' });
+}
+
+function fileOf(attribution: Attribution): string {
+  if (!attribution.projectFile) {
+    // Hotlinked photos are shown where the code first links to them
+    const hotlink = attribution.hotlinks?.[0];
+    return hotlink ? `${hotlink.file}:${hotlink.line} (hotlinked)` : 'Unknown file';
+  }
+  return attribution.projectPath ? path.join(attribution.projectPath, attribution.projectFile) : attribution.projectFile;
+}
+
+function creditText(attribution: Attribution): string {
+  return `Photo by ${attribution.photographer} on ${attribution.source}`;
+}
+
+function markdownCredits(groups: AttributionGroup[]): string {
+  // Keep names and file paths from being read as Markdown syntax
+  const escape = (text: string) => text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+  const link = (text: string, url?: string) => url ? `[${escape(text)}](<${url}>)` : escape(text);
+
+  const lines = ['# Image Credits', ''];
+  for (const group of groups) {
+    if (group.label) {
+      lines.push(`## ${escape(group.label)}`, '');
+    }
+    for (const attribution of group.attributions) {
+      lines.push(
+        `- \`${fileOf(attribution).replace(/`/g, "'")}\`: Photo by ${link(attribution.photographer, attribution.photographerUrl)} ` +
+        `on ${link(attribution.source, attribution.sourceUrl)} (${escape(attribution.license)})`
+      );
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function textCredits(groups: AttributionGroup[]): string {
+  const lines = ['IMAGE CREDITS', '=============', ''];
+  for (const group of groups) {
+    if (group.label) {
+      lines.push(group.label, '-'.repeat(group.label.length), '');
+    }
+    for (const attribution of group.attributions) {
+      lines.push(fileOf(attribution));
+      lines.push(`  ${creditText(attribution)}`);
+      if (attribution.photographerUrl) {
+        lines.push(`  Photographer: ${attribution.photographerUrl}`);
+      }
+      lines.push(`  Source: ${attribution.sourceUrl}`);
+      lines.push(`  License: ${attribution.license}`);
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+const CSV_COLUMNS: Array<[string, (attribution: Attribution) => string | undefined]> = [
+  ['photo_id', attribution => attribution.id],
+  ['file', attribution => attribution.projectFile],
+  ['project_path', attribution => attribution.projectPath],
+  ['photographer', attribution => attribution.photographer],
+  ['photographer_url', attribution => attribution.photographerUrl],
+  ['source', attribution => attribution.source],
+  ['source_url', attribution => attribution.sourceUrl],
+  ['license', attribution => attribution.license],
+  ['download_date', attribution => attribution.downloadDate],
+  ['credit', creditText]
+];
+
+function csvCredits(attributions: Attribution[]): string {
+  const cell = (value = '') => {
+    // Spreadsheets run cells starting with these characters as formulas
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  };
+
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...attributions.map(attribution => CSV_COLUMNS.map(([, value]) => cell(value(attribution))))
+  ];
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+}
+
+function jsonLdCredits(attributions: Attribution[]): string {
+  const images = attributions.map(attribution => ({
+    '@type': 'ImageObject',
+    identifier: attribution.id,
+    name: attribution.projectFile,
+    url: attribution.sourceUrl,
+    creator: {
+      '@type': 'Person',
+      name: attribution.photographer,
+      url: attribution.photographerUrl
+    },
+    creditText: creditText(attribution),
+    copyrightNotice: attribution.photographer,
+    license: attribution.license === 'Unsplash License' ? UNSPLASH_LICENSE_URL : attribution.license,
+    // The photo's page, where anyone can download it under the same license
+    acquireLicensePage: attribution.sourceUrl
+  }));
+
+  return JSON.stringify({ '@context': 'https://schema.org', '@graph': images }, null, 2) + '\n';
+}
@@ -0,0 +1,262 @@
+import path from 'path';
+import type { Attribution } from './attributionManager.js';
+
+export const HTML_THEMES = ['light', 'dark', 'grid'] as const;
+
+export type HtmlTheme = typeof HTML_THEMES[number];
+
+export interface HtmlPageOptions {
+  // Built-in theme, ignored when a template is given
+  theme?: HtmlTheme;
+  // User template for the attribution list, see renderTemplate for the syntax
+  template?: string;
+  // Attributions per page; everything goes on one page when unset
+  pageSize?: number;
+  // Emit only the attribution section, to embed in an existing page
+  fragment?: boolean;
+  title?: string;
+  // Directory the page is written to, so local images can be linked relative to it
+  baseDir?: string;
+}
+
+export interface HtmlPage {
+  // Name of the page file, derived from the name of the first page
+  fileName: string;
+  html: string;
+}
+
+type TemplateValue = string | number | boolean | undefined | TemplateContext | TemplateContext[];
+
+export interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+const SECTION_PATTERN = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\{)?\s*(\w+)\s*\}?\}\}/g;
+
+/**
+ * Escape text for use in HTML content and quoted attribute values.
+ * Braces are escaped too, so inserted text is never read as template syntax.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(/\{/g, '&#123;')
+    .replace(/\}/g, '&#125;');
+}
+
+/**
+ * Keep http(s) and relative URLs, and replace anything else (such as javascript:) with "#".
+ * Browsers ignore tabs, newlines and control characters in a scheme, so "java\tscript:" is
+ * still javascript:. They are removed, and the scheme read the way a browser parses the URL.
+ */
+export function safeUrl(url?: string): string {
+  const cleaned = url?.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+  if (!cleaned) {
+    return '#';
+  }
+  try {
+    const { protocol } = new URL(cleaned, 'https://unsplash.com');
+    return protocol === 'http:' || protocol === 'https:' ? cleaned : '#';
+  } catch {
+    return '#';
+  }
+}
+
+/**
+ * Render a logic-less template:
+ * - `{{name}}` inserts a value, HTML-escaped
+ * - `{{{name}}}` inserts a value as-is
+ * - `{{#name}}...{{/name}}` repeats for each item of a list, or renders once when the value is set
+ * - `{{^name}}...{{/name}}` renders when the value is unset, false or an empty list
+ * Names are looked up in the current item first, then in the enclosing contexts.
+ */
+export function renderTemplate(template: string, context: TemplateContext, parents: TemplateContext[] = []): string {
+  const scopes = [context, ...parents];
+  const lookup = (name: string): TemplateValue => scopes.find(scope => name in scope)?.[name];
+
+  const withSections = template.replace(SECTION_PATTERN, (_, kind: string, name: string, body: string) => {
+    const value = lookup(name);
+    const empty = value === undefined || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+
+    if (kind === '^') {
+      return empty ? renderTemplate(body, context, parents) : '';
+    }
+    if (empty) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => renderTemplate(body, item, scopes)).join('');
+    }
+    return typeof value === 'object'
+      ? renderTemplate(body, value, scopes)
+      : renderTemplate(body, context, parents);
+  });
+
+  if (/\{\{[#^/]/.test(withSections)) {
+    throw new Error('Attribution template has an unclosed or mismatched {{#section}}');
+  }
+
+  return withSections.replace(VARIABLE_PATTERN, (_, raw: string | undefined, name: string) => {
+    const value = lookup(name);
+    if (value === undefined || typeof value === 'object') {
+      return '';
+    }
+    return raw ? String(value) : escapeHtml(String(value));
+  });
+}
+
+/**
+ * Render attribution pages. Returns a single page unless pageSize splits the attributions up,
+ * in which case pages after the first are named like "unsplash-attributions-2.html".
+ */
+export function renderAttributionPages(
+  attributions: Attribution[],
+  options: HtmlPageOptions = {},
+  fileName = 'unsplash-attributions.html'
+): HtmlPage[] {
+  const theme = options.theme ?? 'light';
+  const title = options.title ?? 'Image Attributions';
+  const pageSize = options.pageSize && options.pageSize > 0 ? options.pageSize : Math.max(attributions.length, 1);
+  const pageCount = Math.max(Math.ceil(attributions.length / pageSize), 1);
+
+  const { name, ext } = path.parse(fileName);
+  const pageFile = (page: number) => page === 1 ? fileName : `${name}-${page}${ext}`;
+
+  return Array.from({ length: pageCount }, (_, i) => {
+    const page = i + 1;
+    const context: TemplateContext = {
+      title,
+      theme,
+      count: attributions.length,
+      page,
+      pageCount,
+      attributions: attributions.slice(i * pageSize, page * pageSize).map(attribution => attributionContext(attribution, options.baseDir)),
+      pagination: pageCount > 1 ? {
+        previousUrl: page > 1 ? pageFile(page - 1) : undefined,
+        nextUrl: page < pageCount ? pageFile(page + 1) : undefined,
+        pages: Array.from({ length: pageCount }, (_, j) => ({ number: j + 1, url: pageFile(j + 1), current: j === i }))
+      } : undefined
+    };
+
+    const body = renderTemplate(options.template ?? THEME_TEMPLATES[theme], context);
+    const html = options.fragment
+      ? body
+      : renderTemplate(DOCUMENT_TEMPLATE, { title, background: THEME_BACKGROUNDS[theme], body });
+    return { fileName: pageFile(page), html };
+  });
+}
+
+// Template values for one attribution, with URLs made safe to link to
+function attributionContext(attribution: Attribution, baseDir?: string): TemplateContext {
+  const filePath = attribution.projectPath && attribution.projectFile
+    ? path.join(attribution.projectPath, attribution.projectFile)
+    : undefined;
+  // Older records have no thumbnail URL, so fall back to the downloaded file itself
+  const localImage = filePath && baseDir
+    ? path.relative(baseDir, filePath).split(path.sep).map(encodeURIComponent).join('/')
+    : undefined;
+
+  return {
+    id: attribution.id,
+    photographer: attribution.photographer,
+    photographerUrl: safeUrl(attribution.photographerUrl),
+    source: attribution.source,
+    sourceUrl: safeUrl(attribution.sourceUrl),
+    license: attribution.license,
+    downloadDate: attribution.downloadDate.slice(0, 10),
+    file: attribution.projectFile ?? (attribution.hotlinks?.length ? 'Hotlinked' : 'Unknown'),
+    location: attribution.projectPath ?? (attribution.hotlinks?.length ? `${attribution.hotlinks[0].file}:${attribution.hotlinks[0].line}` : 'Unknown'),
+    thumbnailUrl: attribution.thumbnailUrl ? safeUrl(attribution.thumbnailUrl) : localImage,
+    credit: `Photo by ${attribution.photographer} on ${attribution.source}`
+  };
+}
+
+const DOCUMENT_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{title}}</title>
+  <style>body { margin: 0; background: {{background}}; }</style>
+</head>
+<body>
+{{{body}}}
+</body>
+</html>
+`;
+
+const THEME_BACKGROUNDS: Record<HtmlTheme, string> = {
+  light: '#fff',
+  dark: '#0d1117',
+  grid: '#fff'
+};
+
+const PAGINATION_TEMPLATE = `{{#pagination}}
+  <nav class="unsplash-attributions__pages" aria-label="Attribution pages">
+    {{#previousUrl}}<a href="{{previousUrl}}" rel="prev">Previous</a>{{/previousUrl}}
+    {{#pages}}{{#current}}<span aria-current="page">{{number}}</span>{{/current}}{{^current}}<a href="{{url}}">{{number}}</a>{{/current}} {{/pages}}
+    {{#nextUrl}}<a href="{{nextUrl}}" rel="next">Next</a>{{/nextUrl}}
+  </nav>
+{{/pagination}}`;
+
+const LIST_TEMPLATE = (colors: { text: string; muted: string; border: string; hover: string; link: string; code: string }) => `<section class="unsplash-attributions unsplash-attributions--{{theme}}">
+  <style>
+    .unsplash-attributions { font-family: system-ui, -apple-system, sans-serif; line-height: 1.5; max-width: 800px; margin: 0 auto; padding: 20px; color: ${colors.text}; }
+    .unsplash-attributions .attribution { margin-bottom: 20px; padding: 15px; border: 1px solid ${colors.border}; border-radius: 5px; }
+    .unsplash-attributions .attribution:hover { background-color: ${colors.hover}; }
+    .unsplash-attributions .attribution h3 { margin-top: 0; }
+    .unsplash-attributions .file-path { font-family: monospace; background: ${colors.code}; padding: 3px 6px; border-radius: 3px; }
+    .unsplash-attributions a { color: ${colors.link}; text-decoration: none; }
+    .unsplash-attributions a:hover { text-decoration: underline; }
+    .unsplash-attributions__pages { color: ${colors.muted}; }
+  </style>
+  <h1>{{title}}</h1>
+  <p>The following images require attribution according to their respective licenses:</p>
+  <div class="attributions">
+    {{#attributions}}
+    <div class="attribution">
+      <h3>Image: <span class="file-path">{{file}}</span></h3>
+      <p><strong>Photographer:</strong> <a href="{{photographerUrl}}" target="_blank" rel="noopener noreferrer">{{photographer}}</a></p>
+      <p><strong>Source:</strong> <a href="{{sourceUrl}}" target="_blank" rel="noopener noreferrer">{{source}}</a></p>
+      <p><strong>License:</strong> {{license}}</p>
+      <p><strong>Downloaded:</strong> {{downloadDate}}</p>
+      <p><strong>Location:</strong> <span class="file-path">{{location}}</span></p>
+    </div>
+    {{/attributions}}
+  </div>
+  ${PAGINATION_TEMPLATE}
+</section>
+`;
+
+const GRID_TEMPLATE = `<section class="unsplash-attributions unsplash-attributions--grid">
+  <style>
+    .unsplash-attributions { font-family: system-ui, -apple-system, sans-serif; font-size: 14px; max-width: 1200px; margin: 0 auto; padding: 20px; color: #24292f; }
+    .unsplash-attributions ul { list-style: none; margin: 0; padding: 0; display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 16px; }
+    .unsplash-attributions img { display: block; width: 100%; aspect-ratio: 4 / 3; object-fit: cover; border-radius: 4px; background: #eee; }
+    .unsplash-attributions .credit { display: block; margin-top: 6px; }
+    .unsplash-attributions a { color: #0366d6; text-decoration: none; }
+    .unsplash-attributions a:hover { text-decoration: underline; }
+  </style>
+  <h1>{{title}}</h1>
+  <ul>
+    {{#attributions}}
+    <li>
+      {{#thumbnailUrl}}<img src="{{thumbnailUrl}}" alt="{{file}}" loading="lazy">{{/thumbnailUrl}}
+      <span class="credit">Photo by <a href="{{photographerUrl}}" target="_blank" rel="noopener noreferrer">{{photographer}}</a> on <a href="{{sourceUrl}}" target="_blank" rel="noopener noreferrer">{{source}}</a></span>
+    </li>
+    {{/attributions}}
+  </ul>
+  ${PAGINATION_TEMPLATE}
+</section>
+`;
+
+const THEME_TEMPLATES: Record<HtmlTheme, string> = {
+  light: LIST_TEMPLATE({ text: '#24292f', muted: '#57606a', border: '#eee', hover: '#f9f9f9', link: '#0366d6', code: '#f5f5f5' }),
+  dark: LIST_TEMPLATE({ text: '#e6edf3', muted: '#8b949e', border: '#30363d', hover: '#161b22', link: '#58a6ff', code: '#161b22' }),
+  grid: GRID_TEMPLATE
+};
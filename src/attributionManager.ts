@@ -1,6 +1,21 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { Photo } from './unsplashTypes.js';
+import { imageContentHash } from './imageFile.js';
+import { ComponentFormat, generateAttributionComponent } from './attributionComponents.js';
+import { AttributionOrder, ExportFormat, exportAttributions } from './attributionExports.js';
+import { HtmlPageOptions, renderAttributionPages } from './attributionHtml.js';
+import {
+  AttributionDatabase,
+  AttributionDatabaseError,
+  DATABASE_VERSION,
+  LoadedDatabase,
+  loadDatabase,
+  withFileLockAsync,
+  writeDatabase
+} from './attributionDatabase.js';
+
+export type { AttributionDatabase };
 
 // Define interfaces for attribution data
 export interface Attribution {
@@ -13,208 +28,378 @@ export interface Attribution {
   downloadDate: string;
   projectPath?: string;
   projectFile?: string;
+  // Small version of the photo on Unsplash, for credits pages with thumbnails
+  thumbnailUrl?: string;
+  // SHA-256 of the downloaded file, to find it again after it is moved
+  contentHash?: string;
+  // Places in the project's code that link to the photo on Unsplash instead of a downloaded copy
+  hotlinks?: Hotlink[];
+}
+
+export interface Hotlink {
+  file: string;
+  line: number;
+  url: string;
+}
+
+export interface MergeResult {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+// Where a project keeps its own attribution database, relative to the project root
+export const PROJECT_DATABASE_PATH = path.join('.unsplash', 'attributions.json');
+
+/**
+ * Find the project database covering a directory by walking up from it.
+ * Returns the root of the project the database belongs to.
+ */
+export function findProjectDatabaseRoot(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    if (fs.existsSync(path.join(dir, PROJECT_DATABASE_PATH))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
 }
 
-export interface AttributionDatabase {
-  attributions: Record<string, Attribution>;
-  version: string;
+/**
+ * Whether a file is the directory itself or anywhere below it.
+ * Compares path segments, so "/x/site" does not contain "/x/site-v2".
+ */
+export function isInside(root: string, file: string): boolean {
+  const relativePath = path.relative(path.resolve(root), path.resolve(file));
+  return relativePath !== '..' && !relativePath.startsWith('..' + path.sep) && !path.isAbsolute(relativePath);
+}
+
+// The record fields that come from the photo itself
+function photoAttribution(photo: Photo): Attribution {
+  return {
+    id: photo.id,
+    photographer: photo.user.name || photo.user.username,
+    photographerUrl: `https://unsplash.com/@${photo.user.username}`,
+    source: 'Unsplash',
+    sourceUrl: photo.links.html,
+    license: 'Unsplash License',
+    downloadDate: new Date().toISOString(),
+    thumbnailUrl: photo.urls.thumb
+  };
 }
 
 export class AttributionManager {
   private dbPath: string;
+  private projectRoot?: string;
   private db: AttributionDatabase;
+  private readOnly = false;
+  // Modification time and size of the file when last read, to notice writes by other processes
+  private fileStamp?: string;
   
-  constructor(dbDirectory: string) {
-    // Create the attribution database in the specified directory
-    this.dbPath = path.join(dbDirectory, 'unsplash-attributions.json');
+  constructor(dbPath: string) {
+    // Accept the database file itself, or a directory to keep unsplash-attributions.json in
+    this.dbPath = dbPath.endsWith('.json') ? dbPath : path.join(dbPath, 'unsplash-attributions.json');
+    
+    // A project database stores paths relative to the project root, so it can be committed
+    // and used from any checkout
+    const resolvedPath = path.resolve(this.dbPath);
+    if (resolvedPath.endsWith(path.sep + PROJECT_DATABASE_PATH)) {
+      this.projectRoot = resolvedPath.slice(0, -(PROJECT_DATABASE_PATH.length + 1)) || path.sep;
+    }
     
     // Initialize or load the database
-    this.db = this.loadDatabase();
+    this.db = this.loadDatabase().db;
   }
   
-  private loadDatabase(): AttributionDatabase {
-    try {
-      if (fs.existsSync(this.dbPath)) {
-        const data = fs.readFileSync(this.dbPath, 'utf8');
-        return JSON.parse(data) as AttributionDatabase;
+  /**
+   * Attribution manager for the database kept in a project
+   */
+  public static forProject(projectRoot: string): AttributionManager {
+    return new AttributionManager(path.join(projectRoot, PROJECT_DATABASE_PATH));
+  }
+  
+  /**
+   * Path of the attribution database file
+   */
+  public get databasePath(): string {
+    return this.dbPath;
+  }
+  
+  /**
+   * Root of the project this database belongs to, if it is a project database
+   */
+  public get projectDirectory(): string | undefined {
+    return this.projectRoot;
+  }
+  
+  private loadDatabase(): LoadedDatabase {
+    const stamp = this.currentFileStamp();
+    const loaded = loadDatabase(this.dbPath);
+    
+    // Project databases store paths relative to the project root
+    for (const attribution of Object.values(loaded.db.attributions)) {
+      if (this.projectRoot && attribution.projectPath && !path.isAbsolute(attribution.projectPath)) {
+        attribution.projectPath = path.resolve(this.projectRoot, attribution.projectPath);
+      }
+      for (const hotlink of attribution.hotlinks ?? []) {
+        if (this.projectRoot && !path.isAbsolute(hotlink.file)) {
+          hotlink.file = path.resolve(this.projectRoot, hotlink.file);
+        }
       }
-    } catch (error) {
-      console.warn(`Could not load attribution database: ${error instanceof Error ? error.message : String(error)}`);
     }
     
-    // Return empty database if file doesn't exist or can't be parsed
-    return {
-      attributions: {},
-      version: '1.0.0'
-    };
+    if (loaded.readOnly && !this.readOnly) {
+      console.warn(`Attribution database ${this.dbPath} has version ${loaded.db.version}, newer than ${DATABASE_VERSION}. It will not be changed.`);
+    }
+    this.readOnly = loaded.readOnly;
+    this.fileStamp = stamp;
+    return loaded;
   }
   
-  private saveDatabase(): void {
+  private currentFileStamp(): string | undefined {
     try {
-      // Ensure the directory exists
-      fs.ensureDirSync(path.dirname(this.dbPath));
-      
-      // Save the database
-      fs.writeFileSync(
-        this.dbPath, 
-        JSON.stringify(this.db, null, 2), 
-        'utf8'
-      );
-    } catch (error) {
-      console.error(`Error saving attribution database: ${error instanceof Error ? error.message : String(error)}`);
+      const stats = fs.statSync(this.dbPath);
+      return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return undefined;
     }
   }
   
-  public addAttribution(photo: Photo, filePath: string): Attribution {
-    const photographer = photo.user.name || photo.user.username;
-    
-    const attribution: Attribution = {
-      id: photo.id,
-      photographer,
-      photographerUrl: `https://unsplash.com/@${photo.user.username}`,
-      source: 'Unsplash',
-      sourceUrl: photo.links.html,
-      license: 'Unsplash License',
-      downloadDate: new Date().toISOString(),
-      projectPath: path.dirname(filePath),
-      projectFile: path.basename(filePath)
-    };
+  // Pick up changes written by other processes since the database was last read
+  private refresh(): void {
+    if (this.currentFileStamp() !== this.fileStamp) {
+      this.db = this.loadDatabase().db;
+    }
+  }
+  
+  /**
+   * Change the database under a lock: reload it so changes made by other processes are kept,
+   * apply the change, and write it back atomically. The change returns false when it did nothing.
+   */
+  private async update<T>(change: (db: AttributionDatabase) => T): Promise<T> {
+    if (this.readOnly) {
+      throw new AttributionDatabaseError(`Attribution database ${this.dbPath} was written by a newer version and cannot be changed`);
+    }
     
-    // Add to database
-    this.db.attributions[photo.id] = attribution;
+    return withFileLockAsync(this.dbPath, () => {
+      const loaded = this.loadDatabase();
+      this.db = loaded.db;
+      if (this.readOnly) {
+        throw new AttributionDatabaseError(`Attribution database ${this.dbPath} was written by a newer version and cannot be changed`);
+      }
+      
+      const result = change(this.db);
+      if (result !== false) {
+        // Save the database, with paths inside a project relative to its root
+        const attributions = Object.fromEntries(
+          Object.entries(this.db.attributions).map(([id, attribution]) => [id, this.storedAttribution(attribution)])
+        );
+        writeDatabase(this.dbPath, { ...this.db, version: DATABASE_VERSION, attributions }, loaded.recovered);
+        this.fileStamp = this.currentFileStamp();
+      }
+      return result;
+    });
+  }
+  
+  // Attribution as written to disk: relative to the project root when the file is inside the project
+  private storedAttribution(attribution: Attribution): Attribution {
+    if (!this.projectRoot) {
+      return attribution;
+    }
+    const stored = { ...attribution };
+    const projectPath = attribution.projectPath && this.projectRelativePath(attribution.projectPath);
+    if (projectPath) {
+      stored.projectPath = projectPath;
+    }
+    if (attribution.hotlinks) {
+      stored.hotlinks = attribution.hotlinks.map(hotlink => ({ ...hotlink, file: this.projectRelativePath(hotlink.file) ?? hotlink.file }));
+    }
+    return stored;
+  }
+  
+  // Path relative to the project root in posix form, or undefined when it is outside the project
+  private projectRelativePath(filePath: string): string | undefined {
+    if (!this.projectRoot) {
+      return undefined;
+    }
+    if (!isInside(this.projectRoot, filePath)) {
+      return undefined;
+    }
+    return path.relative(this.projectRoot, filePath).split(path.sep).join('/') || '.';
+  }
+  
+  public async addAttribution(photo: Photo, filePath: string): Promise<Attribution> {
+    return this.saveAttribution({
+      ...photoAttribution(photo),
+      projectPath: path.dirname(path.resolve(filePath)),
+      projectFile: path.basename(filePath),
+      contentHash: fs.existsSync(filePath) ? imageContentHash(filePath) : undefined
+    });
+  }
+  
+  /**
+   * Record a photo the project's code links to on Unsplash instead of downloading it
+   */
+  public async addHotlinkedPhoto(photo: Photo, hotlinks: Hotlink[]): Promise<Attribution> {
+    return this.saveAttribution({ ...photoAttribution(photo), hotlinks });
+  }
+  
+  /**
+   * Add or replace a complete record, such as one rebuilt from image metadata
+   */
+  public async saveAttribution(attribution: Attribution): Promise<Attribution> {
+    await this.update(db => {
+      db.attributions[attribution.id] = attribution;
+    });
+    return attribution;
+  }
+  
+  public async removeAttribution(photoId: string): Promise<boolean> {
+    this.refresh();
+    if (!this.db.attributions[photoId]) {
+      return false;
+    }
     
-    // Save changes
-    this.saveDatabase();
+    return this.update(db => {
+      if (!db.attributions[photoId]) {
+        return false;
+      }
+      delete db.attributions[photoId];
+      return true;
+    });
+  }
+  
+  /**
+   * Change fields of a record, such as its path after the file was moved.
+   * Returns the updated record, or null when there is none for the photo.
+   */
+  public async updateAttribution(photoId: string, changes: Partial<Omit<Attribution, 'id'>>): Promise<Attribution | null> {
+    this.refresh();
+    if (!this.db.attributions[photoId]) {
+      return null;
+    }
     
-    return attribution;
+    return this.update(db => {
+      if (!db.attributions[photoId]) {
+        return null;
+      }
+      db.attributions[photoId] = { ...db.attributions[photoId], ...changes };
+      return db.attributions[photoId];
+    });
   }
   
   public getAttribution(photoId: string): Attribution | null {
+    this.refresh();
     return this.db.attributions[photoId] || null;
   }
   
   public getAllAttributions(): Attribution[] {
+    this.refresh();
     return Object.values(this.db.attributions);
   }
   
   public getAttributionsForProject(projectPath: string): Attribution[] {
+    this.refresh();
+    const root = path.resolve(projectPath);
     return Object.values(this.db.attributions).filter(
-      attr => attr.projectPath && attr.projectPath.startsWith(projectPath)
+      attr => (attr.projectPath && isInside(root, attr.projectPath)) || attr.hotlinks?.some(hotlink => isInside(root, hotlink.file))
     );
   }
   
-  // Generate HTML for displaying attributions
-  public generateAttributionHtml(attributions: Attribution[] = this.getAllAttributions()): string {
-    let html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Image Attributions</title>
-  <style>
-    body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.5; max-width: 800px; margin: 0 auto; padding: 20px; }
-    .attribution { margin-bottom: 20px; padding: 15px; border: 1px solid #eee; border-radius: 5px; }
-    .attribution:hover { background-color: #f9f9f9; }
-    .attribution h3 { margin-top: 0; }
-    .file-path { font-family: monospace; background: #f5f5f5; padding: 3px 6px; border-radius: 3px; }
-    a { color: #0366d6; text-decoration: none; }
-    a:hover { text-decoration: underline; }
-  </style>
-</head>
-<body>
-  <h1>Image Attributions</h1>
-  <p>The following images require attribution according to their respective licenses:</p>
-  <div class="attributions">
-`;
-
-    attributions.forEach(attr => {
-      html += `    <div class="attribution">
-      <h3>Image: <span class="file-path">${attr.projectFile || 'Unknown'}</span></h3>
-      <p><strong>Photographer:</strong> <a href="${attr.photographerUrl || '#'}" target="_blank" rel="noopener noreferrer">${attr.photographer}</a></p>
-      <p><strong>Source:</strong> <a href="${attr.sourceUrl}" target="_blank" rel="noopener noreferrer">${attr.source}</a></p>
-      <p><strong>License:</strong> ${attr.license}</p>
-      <p><strong>Downloaded:</strong> ${new Date(attr.downloadDate).toLocaleString()}</p>
-      <p><strong>Location:</strong> <span class="file-path">${attr.projectPath || 'Unknown'}</span></p>
-    </div>
-`;
+  /**
+   * Copy attributions from another database, such as the global one into a project's.
+   * When both have a photo, the most recent download wins.
+   */
+  public async mergeFrom(source: AttributionManager, attributions: Attribution[] = source.getAllAttributions()): Promise<MergeResult> {
+    const result: MergeResult = { added: 0, updated: 0, unchanged: 0 };
+    
+    await this.update(db => {
+      for (const attribution of attributions) {
+        const existing = db.attributions[attribution.id];
+        if (!existing) {
+          result.added++;
+        } else if (attribution.downloadDate > existing.downloadDate) {
+          result.updated++;
+        } else {
+          result.unchanged++;
+          continue;
+        }
+        db.attributions[attribution.id] = { ...attribution };
+      }
+      return result.added > 0 || result.updated > 0;
     });
-
-    html += `  </div>
-</body>
-</html>`;
-
-    return html;
+    return result;
   }
   
-  // Save attribution HTML to a file
-  public saveAttributionHtml(outputPath: string, attributions: Attribution[] = this.getAllAttributions()): void {
+  // Generate an HTML attribution page, or a fragment to embed in one
+  public generateAttributionHtml(
+    attributions: Attribution[] = this.getAllAttributions(),
+    options: Omit<HtmlPageOptions, 'pageSize'> = {}
+  ): string {
+    return renderAttributionPages(attributions, options)[0].html;
+  }
+  
+  // Save attribution HTML to a file, plus one file per extra page when paginated. Returns the files written.
+  public saveAttributionHtml(
+    outputPath: string,
+    attributions: Attribution[] = this.getAllAttributions(),
+    options: HtmlPageOptions = {}
+  ): string[] {
     try {
-      const html = this.generateAttributionHtml(attributions);
+      const outputDir = path.dirname(outputPath);
+      const pages = renderAttributionPages(attributions, { baseDir: outputDir, ...options }, path.basename(outputPath));
       
       // Ensure the directory exists
-      fs.ensureDirSync(path.dirname(outputPath));
+      fs.ensureDirSync(outputDir);
       
-      // Write the HTML file
-      fs.writeFileSync(outputPath, html, 'utf8');
+      // Write the HTML files
+      for (const page of pages) {
+        fs.writeFileSync(path.join(outputDir, page.fileName), page.html, 'utf8');
+      }
+      return pages.map(page => path.join(outputDir, page.fileName));
     } catch (error) {
-      console.error(`Error saving attribution HTML: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Error saving attribution HTML: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
-  // Generate a React component for attribution display
-  public generateReactComponent(outputPath: string): void {
-    const componentCode = `import React from 'react';
-
-type Attribution = {
-  id: string;
-  photographer: string;
-  photographerUrl?: string;
-  source: string;
-  sourceUrl: string;
-  license: string;
-  downloadDate: string;
-  projectPath?: string;
-  projectFile?: string;
-};
-
-type ImageAttributionProps = {
-  photoId: string;
-  className?: string;
-};
-
-const attributions: Record<string, Attribution> = ${JSON.stringify(this.db.attributions, null, 2)};
-
-export const ImageAttribution: React.FC<ImageAttributionProps> = ({ photoId, className }) => {
-  const attribution = attributions[photoId];
-
-  if (!attribution) {
-    return null;
+  // Render attributions as Markdown, CREDITS text, CSV or JSON-LD
+  public exportAttributions(
+    format: ExportFormat,
+    attributions: Attribution[] = this.getAllAttributions(),
+    order: AttributionOrder = {}
+  ): string {
+    return exportAttributions(format, attributions, order);
   }
-
-  return (
-    <div className={className || 'image-attribution'}>
-      <p>
-        Photo by{' '}
-        <a 
-          href={attribution.photographerUrl} 
-          target="_blank" 
-          rel="noopener noreferrer"
-        >
-          {attribution.photographer}
-        </a>
-        {' '}on{' '}
-        <a 
-          href={attribution.sourceUrl} 
-          target="_blank" 
-          rel="noopener noreferrer"
-        >
-          {attribution.source}
-        </a>
-      </p>
-    </div>
-  );
-};
-`;
+  
+  // Save an attribution export to a file
+  public saveAttributionExport(
+    format: ExportFormat,
+    outputPath: string,
+    attributions: Attribution[] = this.getAllAttributions(),
+    order: AttributionOrder = {}
+  ): void {
+    try {
+      // Ensure the directory exists
+      fs.ensureDirSync(path.dirname(outputPath));
+      
+      // Write the export file
+      fs.writeFileSync(outputPath, this.exportAttributions(format, attributions, order), 'utf8');
+    } catch (error) {
+      throw new Error(`Error saving ${format} attributions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  // Generate an attribution component for a framework, with the attributions built in
+  public generateComponent(
+    format: ComponentFormat,
+    outputPath: string,
+    attributions: Attribution[] = this.getAllAttributions()
+  ): void {
+    const componentCode = generateAttributionComponent(format, attributions);
 
     try {
       // Ensure the directory exists
@@ -223,7 +408,12 @@ export const ImageAttribution: React.FC<ImageAttributionProps> = ({ photoId, cla
       // Write the component file
       fs.writeFileSync(outputPath, componentCode, 'utf8');
     } catch (error) {
-      console.error(`Error generating React component: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Error generating ${format} component: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-} 
\ No newline at end of file
+  
+  // Generate a React component for attribution display
+  public generateReactComponent(outputPath: string, attributions: Attribution[] = this.getAllAttributions()): void {
+    this.generateComponent('react', outputPath, attributions);
+  }
+}
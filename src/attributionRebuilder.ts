@@ -0,0 +1,160 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { Attribution, AttributionManager } from './attributionManager.js';
+import { AttributionMetadata, MetadataManager, unsplashPhotoOf } from './metadataManager.js';
+import { findProjectImages } from './attributionReconciler.js';
+import { imageContentHash } from './imageFile.js';
+import { Photo } from './unsplashTypes.js';
+
+export interface RebuildOptions {
+  // Look up a photo on Unsplash, to fill in details its metadata lacks
+  lookupPhoto?: (photoId: string) => Promise<Photo>;
+  // Replace records that already exist for a photo
+  overwrite?: boolean;
+  // Report what would be recorded without changing the database
+  dryRun?: boolean;
+}
+
+export interface RebuiltAttribution {
+  id: string;
+  file: string;
+  // Details were filled in from Unsplash
+  lookedUp: boolean;
+}
+
+export interface RebuildReport {
+  projectRoot: string;
+  // Images found in the project
+  scanned: number;
+  added: RebuiltAttribution[];
+  replaced: RebuiltAttribution[];
+  // Images of photos that already have a record
+  existing: number;
+  // Images with Unsplash metadata lacking details a record needs
+  incomplete: Array<{ file: string; reason: string }>;
+  unreadable: Array<{ file: string; error: string }>;
+}
+
+/**
+ * The URL when it is an https://unsplash.com page under the given path, such as "/@" for
+ * profiles. Metadata can be edited by anyone, so other links are not trusted as credits.
+ */
+function unsplashPageUrl(url: string | undefined, pathPrefix: string): string | undefined {
+  try {
+    const parsed = new URL(url ?? '');
+    return parsed.protocol === 'https:' && parsed.hostname === 'unsplash.com' && parsed.pathname.startsWith(pathPrefix) ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The attribution fields an image's embedded metadata provides, without file details.
+ * Empty for images without Unsplash metadata.
+ */
+export function attributionFromMetadata(metadata: AttributionMetadata): Partial<Attribution> {
+  const { photoId, sourceUrl: embeddedSourceUrl } = unsplashPhotoOf(metadata);
+  const sourceUrl = unsplashPageUrl(embeddedSourceUrl, '/photos/') ?? (photoId ? `https://unsplash.com/photos/${photoId}` : undefined);
+  if (!photoId && !sourceUrl) {
+    return {};
+  }
+
+  // Credits like "Photo by Dan Desk on Unsplash" and "Dan Desk / Unsplash" name the photographer too
+  const credited = [metadata.credit, metadata.rights]
+    .map(text => text?.match(/^Photo by (.+?) on Unsplash/)?.[1] ?? text?.match(/^(.+?) \/ Unsplash$/)?.[1])
+    .find(Boolean);
+
+  return {
+    id: photoId,
+    photographer: metadata.creator ?? credited,
+    // Left unset otherwise, for the lookup to derive it from the username
+    photographerUrl: unsplashPageUrl(metadata.creatorUrl, '/@'),
+    source: 'Unsplash',
+    sourceUrl,
+    license: 'Unsplash License'
+  };
+}
+
+/**
+ * Recreate attribution records from the metadata embedded in a project's images,
+ * for example on a fresh checkout without the attribution database.
+ * The download date is taken from the file's modification time.
+ */
+export async function rebuildAttributions(
+  manager: AttributionManager,
+  metadata: Pick<MetadataManager, 'readAttributionMetadata'>,
+  projectRoot: string,
+  options: RebuildOptions = {}
+): Promise<RebuildReport> {
+  const root = path.resolve(projectRoot);
+  const relative = (file: string) => path.relative(root, file).split(path.sep).join('/');
+  const report: RebuildReport = { projectRoot: root, scanned: 0, added: [], replaced: [], existing: 0, incomplete: [], unreadable: [] };
+  const recorded = new Set<string>();
+
+  for (const file of findProjectImages(root)) {
+    report.scanned++;
+
+    let found: Partial<Attribution>;
+    try {
+      found = attributionFromMetadata(await metadata.readAttributionMetadata(file));
+    } catch (error) {
+      report.unreadable.push({ file: relative(file), error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (!found.id && !found.sourceUrl) {
+      continue;
+    }
+    const photoId = found.id;
+    if (!photoId) {
+      report.incomplete.push({ file: relative(file), reason: 'No photo ID; only XMP metadata carries it' });
+      continue;
+    }
+
+    // Copies of a photo get one record, from the first file
+    const existing = manager.getAttribution(photoId);
+    if (recorded.has(photoId) || (existing && !options.overwrite)) {
+      report.existing++;
+      continue;
+    }
+
+    let lookedUp = false;
+    let lookupError = '';
+    if (options.lookupPhoto && (!found.photographer || !found.photographerUrl || !found.sourceUrl)) {
+      try {
+        const photo = await options.lookupPhoto(photoId);
+        found = {
+          ...found,
+          photographer: found.photographer ?? (photo.user.name || photo.user.username),
+          photographerUrl: found.photographerUrl ?? `https://unsplash.com/@${photo.user.username}`,
+          sourceUrl: found.sourceUrl ?? photo.links.html,
+          thumbnailUrl: photo.urls.thumb
+        };
+        lookedUp = true;
+      } catch (error) {
+        lookupError = ` (lookup failed: ${error instanceof Error ? error.message : String(error)})`;
+      }
+    }
+
+    const missing = (['photographer', 'sourceUrl'] as const).filter(field => !found[field]);
+    if (missing.length > 0) {
+      report.incomplete.push({ file: relative(file), reason: `No ${missing.join(' or ')} in the metadata${lookupError}` });
+      continue;
+    }
+
+    const attribution: Attribution = {
+      ...(found as Attribution),
+      downloadDate: existing?.downloadDate ?? fs.statSync(file).mtime.toISOString(),
+      projectPath: path.dirname(file),
+      projectFile: path.basename(file),
+      contentHash: imageContentHash(file),
+      hotlinks: existing?.hotlinks
+    };
+    if (!options.dryRun) {
+      await manager.saveAttribution(attribution);
+    }
+    recorded.add(photoId);
+    (existing ? report.replaced : report.added).push({ id: photoId, file: relative(file), lookedUp });
+  }
+
+  return report;
+}
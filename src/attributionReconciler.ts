@@ -0,0 +1,162 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { globSync } from 'glob';
+import type { Attribution, AttributionManager } from './attributionManager.js';
+import type { MetadataManager } from './metadataManager.js';
+import { IMAGE_EXTENSIONS, imageContentHash } from './imageFile.js';
+
+export interface ReconcileOptions {
+  // Report what would change without updating the database
+  dryRun?: boolean;
+}
+
+export interface MovedImage {
+  id: string;
+  from: string;
+  to: string;
+  // Found by the Unsplash ID or URL embedded in the image, or by its content hash
+  matchedBy: 'metadata' | 'hash';
+}
+
+export interface MissingImage {
+  id: string;
+  file: string;
+  photographer: string;
+}
+
+export interface UntrackedImage {
+  file: string;
+  photoId?: string;
+  sourceUrl?: string;
+}
+
+export interface ReconcileReport {
+  projectRoot: string;
+  // Images found in the project
+  scanned: number;
+  // Records whose file is still where it was downloaded to
+  unchanged: number;
+  moved: MovedImage[];
+  missing: MissingImage[];
+  // Images with Unsplash metadata but no attribution record
+  untracked: UntrackedImage[];
+  unreadable: Array<{ file: string; error: string }>;
+}
+
+interface ScannedImage {
+  file: string;
+  photoId?: string;
+  sourceUrl?: string;
+  hash?: string;
+}
+
+// Dependencies and build output, which only hold copies of the project's images
+const IGNORED_DIRECTORIES = ['node_modules', '.git', '.unsplash', '.next', '.nuxt', '.svelte-kit', '.astro', '.cache', 'dist', 'build'];
+
+/**
+ * Files with the given extensions in a project, skipping dependencies, build output
+ * and any other ignored patterns
+ */
+export function findProjectFiles(projectRoot: string, extensions: string[], ignore: string[] = []): string[] {
+  return globSync(`**/*.{${extensions.join(',')}}`, {
+    cwd: projectRoot,
+    absolute: true,
+    nocase: true,
+    nodir: true,
+    ignore: [...IGNORED_DIRECTORIES.map(directory => `**/${directory}/**`), ...ignore]
+  }).sort();
+}
+
+/**
+ * Image files in a project, skipping dependencies and build output
+ */
+export function findProjectImages(projectRoot: string): string[] {
+  return findProjectFiles(projectRoot, IMAGE_EXTENSIONS);
+}
+
+/**
+ * Compare a project's attribution records with the images actually in it.
+ * Records whose file was moved or renamed are found again by the metadata written at download
+ * time, or failing that by content hash, and their paths updated. Records without a file are
+ * reported as missing, and images with Unsplash metadata but no record as untracked.
+ */
+export async function reconcileAttributions(
+  manager: AttributionManager,
+  metadata: Pick<MetadataManager, 'readUnsplashMetadata'>,
+  projectRoot: string,
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport> {
+  const root = path.resolve(projectRoot);
+  const relative = (file: string) => path.relative(root, file).split(path.sep).join('/');
+  const report: ReconcileReport = { projectRoot: root, scanned: 0, unchanged: 0, moved: [], missing: [], untracked: [], unreadable: [] };
+
+  const images: ScannedImage[] = [];
+  for (const file of findProjectImages(root)) {
+    try {
+      images.push({ file, ...(await metadata.readUnsplashMetadata(file)) });
+    } catch (error) {
+      report.unreadable.push({ file: relative(file), error: error instanceof Error ? error.message : String(error) });
+      images.push({ file });
+    }
+  }
+  report.scanned = images.length;
+  const hashOf = (image: ScannedImage) => image.hash ??= imageContentHash(image.file);
+
+  // Records whose file is still in place keep it. Hotlinked photos have no file to look for.
+  const records = manager.getAttributionsForProject(root).filter(record => record.projectFile);
+  const claimed = new Set<string>();
+  const displaced: Attribution[] = [];
+  for (const record of records) {
+    const file = record.projectPath && record.projectFile && path.join(record.projectPath, record.projectFile);
+    if (!file || !fs.existsSync(file)) {
+      displaced.push(record);
+      continue;
+    }
+    claimed.add(file);
+    report.unchanged++;
+    // Older records have no hash yet, which later moves need
+    if (!record.contentHash && !options.dryRun) {
+      await manager.updateAttribution(record.id, { contentHash: imageContentHash(file) });
+    }
+  }
+
+  for (const record of displaced) {
+    // Identical copies are told apart by file name, in case only the folder changed
+    const candidates = images
+      .filter(image => !claimed.has(image.file))
+      .sort((a, b) => Number(path.basename(b.file) === record.projectFile) - Number(path.basename(a.file) === record.projectFile));
+    let matchedBy: MovedImage['matchedBy'] = 'metadata';
+    let match = candidates.find(image => image.photoId === record.id || (image.sourceUrl && image.sourceUrl === record.sourceUrl));
+    if (!match && record.contentHash) {
+      matchedBy = 'hash';
+      match = candidates.find(image => hashOf(image) === record.contentHash);
+    }
+
+    const from = relative(path.join(record.projectPath ?? root, record.projectFile ?? ''));
+    if (!match) {
+      report.missing.push({ id: record.id, file: from, photographer: record.photographer });
+      continue;
+    }
+
+    claimed.add(match.file);
+    report.moved.push({ id: record.id, from, to: relative(match.file), matchedBy });
+    if (!options.dryRun) {
+      await manager.updateAttribution(record.id, {
+        projectPath: path.dirname(match.file),
+        projectFile: path.basename(match.file),
+        contentHash: hashOf(match)
+      });
+    }
+  }
+
+  // Unsplash images nobody recorded, such as ones downloaded by hand or committed by a teammate
+  for (const image of images) {
+    const fromUnsplash = image.photoId || image.sourceUrl;
+    const recorded = records.some(record => record.id === image.photoId || (image.sourceUrl && record.sourceUrl === image.sourceUrl));
+    if (fromUnsplash && !claimed.has(image.file) && !recorded) {
+      report.untracked.push({ file: relative(image.file), photoId: image.photoId, sourceUrl: image.sourceUrl });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastMCP } from 'fastmcp';
+
+type RequestHandler = (request: unknown, extra: { signal: AbortSignal }) => Promise<unknown>;
+
+interface ToolRequest {
+  params?: { _meta?: { progressToken?: string | number } };
+}
+
+interface RequestContext {
+  signal: AbortSignal;
+  // Set when the client asked for progress notifications
+  progressToken?: string | number;
+}
+
+// The MCP request a tool is currently executing for
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Make the MCP request's abort signal and progress token available to tools through
+ * currentRequestSignal() and currentRequestWantsProgress(). FastMCP 1.x receives them from
+ * the SDK but does not pass them on to tools, so this wraps each session's tools/call
+ * handler. If FastMCP's internals change, tools simply run without a signal or progress.
+ */
+export function trackToolCancellation(server: FastMCP): void {
+  server.on('connect', ({ session }) => {
+    const handlers = (session.server as unknown as { _requestHandlers?: Map<string, RequestHandler> })._requestHandlers;
+    const callTool = handlers?.get('tools/call');
+
+    if (!handlers || !callTool) {
+      console.warn('Could not hook tools/call; cancellation requests will not stop running tools');
+      return;
+    }
+
+    handlers.set('tools/call', (request, extra) => requestContext.run(
+      { signal: extra.signal, progressToken: (request as ToolRequest).params?._meta?.progressToken },
+      () => callTool(request, extra)
+    ));
+  });
+}
+
+/**
+ * Abort signal for the tool call being executed, if any
+ */
+export function currentRequestSignal(): AbortSignal | undefined {
+  return requestContext.getStore()?.signal;
+}
+
+/**
+ * Whether the client asked for progress notifications for the tool call being executed.
+ * FastMCP's reportProgress sends them regardless, without a token the client can match.
+ */
+export function currentRequestWantsProgress(): boolean {
+  return requestContext.getStore()?.progressToken !== undefined;
+}
+
+/**
+ * Signal that aborts as soon as any of the given signals does
+ */
+export function anySignal(...signals: Array<AbortSignal | undefined>): AbortSignal {
+  const active = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+  const controller = new AbortController();
+
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+
+  return controller.signal;
+}
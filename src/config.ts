@@ -1,11 +1,19 @@
 import 'dotenv/config';
 import { z } from 'zod';
 import * as path from 'path';
+import { homeDirectory, loadSettings } from './settings.js';
 
 // Define schema for environment variables
 const envSchema = z.object({
   UNSPLASH_ACCESS_KEY: z.string().optional(),
-  DEFAULT_DOWNLOAD_DIR: z.string().default('./downloads')
+  UNSPLASH_API_URL: z.string().url().default('https://api.unsplash.com'),
+  UNSPLASH_IMAGE_URL: z.string().url().optional(),
+  UNSPLASH_MAX_RETRIES: z.coerce.number().int().min(0).default(3),
+  UNSPLASH_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(500),
+  UNSPLASH_CACHE_DIR: z.string().optional(),
+  UNSPLASH_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(3600),
+  UNSPLASH_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(1000),
+  UNSPLASH_CACHE_MAX_MB: z.coerce.number().positive().default(50)
 });
 
 // Parse environment variables
@@ -30,12 +38,38 @@ if (!apiKey) {
   throw new Error('Unsplash API key is required. Set UNSPLASH_ACCESS_KEY environment variable.');
 }
 
+// Directory for persistent data such as the attribution database and response cache
+const dataDir = path.join(homeDirectory(), '.unsplash-mcp');
+
+// Settings layered from defaults, the user file, the working directory's .unsplashrc and the environment
+const settings = loadSettings();
+
 // Export validated config
 export const config = {
+  dataDir,
   unsplash: {
-    accessKey: apiKey
+    accessKey: apiKey,
+    // Base URL of the Unsplash API (override to point at a mock server)
+    apiUrl: parsedEnv.data.UNSPLASH_API_URL.replace(/\/+$/, ''),
+    // Optional host that replaces images.unsplash.com when downloading
+    imageUrl: parsedEnv.data.UNSPLASH_IMAGE_URL?.replace(/\/+$/, ''),
+    // Retries for network errors and 5xx responses
+    maxRetries: parsedEnv.data.UNSPLASH_MAX_RETRIES,
+    retryBaseDelayMs: parsedEnv.data.UNSPLASH_RETRY_BASE_DELAY_MS
+  },
+  cache: {
+    // A TTL of 0 disables the response cache
+    enabled: parsedEnv.data.UNSPLASH_CACHE_TTL_SECONDS > 0,
+    dir: parsedEnv.data.UNSPLASH_CACHE_DIR
+      ? path.resolve(process.cwd(), parsedEnv.data.UNSPLASH_CACHE_DIR)
+      : path.join(dataDir, 'cache'),
+    ttlSeconds: parsedEnv.data.UNSPLASH_CACHE_TTL_SECONDS,
+    maxEntries: parsedEnv.data.UNSPLASH_CACHE_MAX_ENTRIES,
+    maxBytes: Math.round(parsedEnv.data.UNSPLASH_CACHE_MAX_MB * 1024 * 1024)
   },
-  download: {
-    defaultDir: path.resolve(process.cwd(), parsedEnv.data.DEFAULT_DOWNLOAD_DIR)
-  }
-}; 
\ No newline at end of file
+  settings,
+  // Default page budget when looking for photos that meet stock_photo's constraints
+  search: settings.search,
+  // Download directory, timeout, concurrency, filename template and collision policy
+  download: settings.download
+};
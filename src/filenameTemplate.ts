@@ -0,0 +1,131 @@
+import path from 'path';
+
+// What to do when a rendered filename is already taken
+export type CollisionPolicy = 'suffix' | 'overwrite' | 'skip' | 'error';
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['suffix', 'overwrite', 'skip', 'error'];
+
+export const FILENAME_TOKENS = ['query', 'purpose', 'id', 'photographer', 'width', 'height', 'index', 'date', 'ext'] as const;
+
+export type FilenameToken = typeof FILENAME_TOKENS[number];
+
+export type FilenameValues = Record<FilenameToken, string | number>;
+
+const TOKEN_PATTERN = /\{([a-z]+)\}/g;
+
+/**
+ * Lowercase a value and replace anything but letters and digits with underscores
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename
+    .toLowerCase()
+    .replace(/[^a-z0-9]/gi, '_')
+    .replace(/_+/g, '_')
+    .substring(0, 50);
+}
+
+/**
+ * Check a template for unknown tokens and characters that would escape the target directory.
+ * Returns an error message, or undefined when the template is valid.
+ */
+export function validateFilenameTemplate(template: string): string | undefined {
+  if (!template.trim()) {
+    return 'Filename template is empty';
+  }
+  if (/[\\/]/.test(template) || template.includes('..')) {
+    return 'Filename template must not contain path separators or ".."';
+  }
+
+  const unknown = [...template.matchAll(TOKEN_PATTERN)]
+    .map(match => match[1])
+    .filter(token => !FILENAME_TOKENS.includes(token as FilenameToken));
+  if (unknown.length > 0) {
+    return `Unknown filename template token(s): ${unknown.map(token => `{${token}}`).join(', ')}. ` +
+      `Available tokens: ${FILENAME_TOKENS.map(token => `{${token}}`).join(', ')}`;
+  }
+
+  const literal = template.replace(TOKEN_PATTERN, '');
+  if (/[^A-Za-z0-9 ._-]/.test(literal)) {
+    return 'Filename template text may only contain letters, digits, spaces, ".", "_" and "-"';
+  }
+
+  return undefined;
+}
+
+/**
+ * Render a filename from a template such as "{query}_{index}.{ext}".
+ * Text values are sanitized, and ".{ext}" is appended when the template has no {ext}.
+ */
+export function renderFilenameTemplate(template: string, values: FilenameValues): string {
+  const error = validateFilenameTemplate(template);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const rendered = template.replace(TOKEN_PATTERN, (_, token: FilenameToken) => {
+    const value = String(values[token]);
+    switch (token) {
+      case 'query':
+      case 'purpose':
+      case 'photographer':
+        return sanitizeFilename(value);
+      case 'id':
+        // Unsplash IDs are URL-safe, so keep them as they are
+        return value.replace(/[^A-Za-z0-9_-]/g, '_');
+      default:
+        return value;
+    }
+  });
+
+  return template.includes('{ext}') ? rendered : `${rendered}.${values.ext}`;
+}
+
+export interface ResolvedFilename {
+  fileName: string;
+  // The name was taken and the policy is "skip"
+  skipped: boolean;
+  // The name was taken and the policy is "overwrite"
+  overwrites: boolean;
+}
+
+/**
+ * Apply a collision policy to a filename. `isTaken` reports names that already exist,
+ * and `reserved` holds names handed out earlier in the same request.
+ * Throws when the name is taken and the policy is "error".
+ */
+export function resolveFilenameCollision(
+  fileName: string,
+  policy: CollisionPolicy,
+  isTaken: (fileName: string) => boolean,
+  reserved: Set<string>
+): ResolvedFilename {
+  const taken = (name: string) => reserved.has(name) || isTaken(name);
+
+  if (!taken(fileName)) {
+    reserved.add(fileName);
+    return { fileName, skipped: false, overwrites: false };
+  }
+
+  switch (policy) {
+    case 'overwrite':
+      // Two photos from the same request still never share a file
+      if (!reserved.has(fileName)) {
+        reserved.add(fileName);
+        return { fileName, skipped: false, overwrites: true };
+      }
+      break;
+    case 'skip':
+      return { fileName, skipped: true, overwrites: false };
+    case 'error':
+      throw new Error(`File "${fileName}" already exists`);
+  }
+
+  const { name, ext } = path.parse(fileName);
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}${ext}`;
+    if (!taken(candidate)) {
+      reserved.add(candidate);
+      return { fileName: candidate, skipped: false, overwrites: false };
+    }
+  }
+}
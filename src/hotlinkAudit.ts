@@ -0,0 +1,183 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { isInside, type AttributionManager, type Hotlink } from './attributionManager.js';
+import { findProjectFiles } from './attributionReconciler.js';
+import { GENERATED_FILES, SOURCE_EXTENSIONS } from './imageUsage.js';
+import { Photo } from './unsplashTypes.js';
+
+// Hotlinks also turn up in data files, such as lists of images for a gallery
+const HOTLINK_EXTENSIONS = [...SOURCE_EXTENSIONS, 'json', 'yml', 'yaml'];
+
+// Images served from the Unsplash CDN. Their file names are not photo IDs.
+// Punctuation ending a sentence after a URL is not part of it.
+const IMAGE_URL = /(?:https?:)?\/\/(?:images|plus)\.unsplash\.com\/(?:photo|premium_photo)-[\w-]+[^\s'"`<>()[\]{}]*(?<![.,;:!?])/gi;
+
+// Photo pages, named after the photo ID or a description ending in it
+const PAGE_URL = /(?:https?:)?\/\/(?:www\.)?unsplash\.com\/photos\/[\w-]+[^\s'"`<>()[\]{}]*(?<![.,;:!?])/gi;
+
+export interface HotlinkAuditOptions {
+  // Look up a photo on Unsplash, to record photos the database does not have yet
+  lookupPhoto?: (photoId: string) => Promise<Photo>;
+  // Report what would be recorded without changing the database
+  dryRun?: boolean;
+}
+
+export interface HotlinkedPhoto {
+  id: string;
+  photographer: string;
+  // The record was created by this audit
+  added: boolean;
+  hotlinks: Array<{ file: string; line: number }>;
+}
+
+export interface UnresolvedHotlink {
+  file: string;
+  line: number;
+  url: string;
+  reason: string;
+}
+
+export interface HotlinkAuditReport {
+  projectRoot: string;
+  // Source files searched for Unsplash URLs
+  sourceFiles: number;
+  // Unsplash image and page URLs found
+  found: number;
+  photos: HotlinkedPhoto[];
+  unresolved: UnresolvedHotlink[];
+  // Photos recorded only for their hotlinks, which the code no longer links to
+  stale: string[];
+}
+
+interface FoundHotlink extends Hotlink {
+  photoId?: string;
+  // Path of an image URL, the same for every size of a photo
+  imagePath?: string;
+}
+
+/**
+ * The photo ID in an Unsplash photo page URL
+ */
+export function photoIdFromPageUrl(url: string): string {
+  const slug = new URL(url, 'https://unsplash.com').pathname.split('/')[2].replace(/[.,;:!?]+$/, '');
+  // Newer page URLs put a description before the 11 character ID, as in "a-desk-by-a-window-Dwu85P9SOIk"
+  return slug.length > 11 && slug[slug.length - 12] === '-' ? slug.slice(-11) : slug;
+}
+
+function imagePathOf(url: string): string {
+  return new URL(url, 'https://images.unsplash.com').pathname;
+}
+
+/**
+ * Find Unsplash image and page URLs in a project's code and record the photos they show,
+ * with the file and line of each link, so hotlinked photos are credited like downloaded ones.
+ * Page URLs name the photo. Image URLs do not, so they are matched against known photos, or
+ * against a page URL on the same line, as in a linked image in Markdown.
+ */
+export async function auditHotlinks(
+  manager: AttributionManager,
+  projectRoot: string,
+  options: HotlinkAuditOptions = {}
+): Promise<HotlinkAuditReport> {
+  const root = path.resolve(projectRoot);
+  const relative = (file: string) => path.relative(root, file).split(path.sep).join('/');
+
+  const sourceFiles = findProjectFiles(root, HOTLINK_EXTENSIONS, GENERATED_FILES);
+  const found: FoundHotlink[] = [];
+  for (const file of sourceFiles) {
+    const lines = (await fs.readFile(file, 'utf8')).split('\n');
+    lines.forEach((text, index) => {
+      const pages = [...text.matchAll(PAGE_URL)].map(([url]) => ({ file, line: index + 1, url, photoId: photoIdFromPageUrl(url) }));
+      found.push(...pages);
+      for (const [url] of text.matchAll(IMAGE_URL)) {
+        found.push({ file, line: index + 1, url, imagePath: imagePathOf(url), photoId: pages.length === 1 ? pages[0].photoId : undefined });
+      }
+    });
+  }
+  const report: HotlinkAuditReport = { projectRoot: root, sourceFiles: sourceFiles.length, found: found.length, photos: [], unresolved: [], stale: [] };
+
+  // Photos the database or Unsplash knows, by the path of their image URLs
+  const knownImages = new Map<string, string>();
+  for (const attribution of manager.getAllAttributions()) {
+    if (attribution.thumbnailUrl) {
+      knownImages.set(imagePathOf(attribution.thumbnailUrl), attribution.id);
+    }
+  }
+  const resolveImages = () => found.forEach(hotlink => {
+    hotlink.photoId = (hotlink.imagePath && knownImages.get(hotlink.imagePath)) || hotlink.photoId;
+  });
+  resolveImages();
+
+  const lookedUp = new Map<string, Photo>();
+  const lookupErrors = new Map<string, string>();
+  if (options.lookupPhoto) {
+    const unrecorded = new Set(found.flatMap(hotlink => hotlink.photoId && !manager.getAttribution(hotlink.photoId) ? [hotlink.photoId] : []));
+    for (const photoId of unrecorded) {
+      try {
+        const photo = await options.lookupPhoto(photoId);
+        lookedUp.set(photoId, photo);
+        knownImages.set(imagePathOf(photo.urls.raw), photoId);
+      } catch (error) {
+        lookupErrors.set(photoId, error instanceof Error ? error.message : String(error));
+      }
+    }
+    // Image URLs of the photos just looked up
+    resolveImages();
+  }
+
+  const byPhoto = new Map<string, Hotlink[]>();
+  for (const { photoId, file, line, url } of found) {
+    if (!photoId) {
+      report.unresolved.push({ file: relative(file), line, url, reason: 'Image URLs do not name the photo; link its unsplash.com page on the same line' });
+      continue;
+    }
+    // An image linked to its page is one hotlink
+    const hotlinks = byPhoto.get(photoId) ?? [];
+    if (!hotlinks.some(hotlink => hotlink.file === file && hotlink.line === line)) {
+      byPhoto.set(photoId, [...hotlinks, { file, line, url }]);
+    }
+  }
+
+  // Hotlinks elsewhere than this project stay as they are
+  const outsideProject = (hotlinks: Hotlink[] = []) => hotlinks.filter(hotlink => !isInside(root, hotlink.file));
+
+  for (const [photoId, hotlinks] of byPhoto) {
+    const existing = manager.getAttribution(photoId);
+    const photo = lookedUp.get(photoId);
+    const lines = hotlinks.map(hotlink => ({ file: relative(hotlink.file), line: hotlink.line }));
+
+    if (existing) {
+      const updated = [...outsideProject(existing.hotlinks), ...hotlinks];
+      if (!options.dryRun && JSON.stringify(updated) !== JSON.stringify(existing.hotlinks ?? [])) {
+        await manager.updateAttribution(photoId, { hotlinks: updated });
+      }
+      report.photos.push({ id: photoId, photographer: existing.photographer, added: false, hotlinks: lines });
+    } else if (photo) {
+      if (!options.dryRun) {
+        await manager.addHotlinkedPhoto(photo, hotlinks);
+      }
+      report.photos.push({ id: photo.id, photographer: photo.user.name || photo.user.username, added: true, hotlinks: lines });
+    } else {
+      const reason = lookupErrors.has(photoId)
+        ? `Lookup failed: ${lookupErrors.get(photoId)}`
+        : 'Not in the attribution database; look it up on Unsplash to record it';
+      report.unresolved.push(...hotlinks.map(hotlink => ({ file: relative(hotlink.file), line: hotlink.line, url: hotlink.url, reason })));
+    }
+  }
+
+  // Records of photos the code no longer links to
+  for (const attribution of manager.getAttributionsForProject(root)) {
+    const remaining = outsideProject(attribution.hotlinks);
+    if (byPhoto.has(attribution.id) || !attribution.hotlinks || remaining.length === attribution.hotlinks.length) {
+      continue;
+    }
+    if (!options.dryRun) {
+      await manager.updateAttribution(attribution.id, { hotlinks: remaining.length > 0 ? remaining : undefined });
+    }
+    if (!attribution.projectFile && remaining.length === 0) {
+      report.stale.push(attribution.id);
+    }
+  }
+
+  return report;
+}
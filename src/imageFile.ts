@@ -0,0 +1,144 @@
+import fs from 'fs-extra';
+import { createHash } from 'crypto';
+
+export type ImageFileFormat = 'jpg' | 'png' | 'gif' | 'webp' | 'avif';
+
+// File extensions of the image formats above
+export const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'gif'];
+
+// Thrown when a downloaded file is not a complete, recognisable image
+export class ImageVerificationError extends Error {}
+
+/**
+ * Remove a trailing image extension such as ".jpg" from a filename
+ */
+export function stripImageExtension(filename: string): string {
+  const pattern = new RegExp(`\\.(${IMAGE_EXTENSIONS.join('|')})$`, 'i');
+  return filename.replace(pattern, '');
+}
+
+/**
+ * Every name a download saved as this filename can end up with. Downloads take the
+ * extension of the format actually served, so "hero.jpg" may be saved as "hero.png".
+ */
+export function downloadFileNames(filename: string): string[] {
+  const base = stripImageExtension(filename);
+  return IMAGE_EXTENSIONS.map(extension => `${base}.${extension}`);
+}
+
+// Bytes read from the start of a file, enough for every signature below
+const HEADER_BYTES = 32;
+
+/**
+ * Identify an image format from the first bytes of a file
+ */
+export function detectImageFormat(header: Buffer): ImageFileFormat | undefined {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'jpg';
+  }
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  const ascii = header.toString('latin1');
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) {
+    return 'gif';
+  }
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (ascii.slice(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii.slice(8, 12))) {
+    return 'avif';
+  }
+  return undefined;
+}
+
+/**
+ * Check that a file is a complete image: a known signature plus an intact
+ * end marker or container length, which catches truncated downloads.
+ * Throws an ImageVerificationError when the file is not usable.
+ */
+export async function verifyImageFile(filePath: string): Promise<ImageFileFormat> {
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    const read = async (position: number, length: number): Promise<Buffer> => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      await handle.read(buffer, 0, buffer.length, position);
+      return buffer;
+    };
+
+    const format = detectImageFormat(await read(0, HEADER_BYTES));
+    if (!format) {
+      throw new ImageVerificationError('File is not a recognised image (unknown header)');
+    }
+
+    const tail = await read(Math.max(0, size - 16), 16);
+
+    switch (format) {
+      case 'jpg': {
+        // Some encoders pad after the end-of-image marker
+        let end = tail.length;
+        while (end > 0 && tail[end - 1] === 0x00) end--;
+        if (end < 2 || tail[end - 2] !== 0xff || tail[end - 1] !== 0xd9) {
+          throw new ImageVerificationError('JPEG is truncated (missing end-of-image marker)');
+        }
+        break;
+      }
+      case 'png':
+        if (tail.length < 8 || tail.toString('latin1', tail.length - 8, tail.length - 4) !== 'IEND') {
+          throw new ImageVerificationError('PNG is truncated (missing IEND chunk)');
+        }
+        break;
+      case 'gif':
+        if (tail[tail.length - 1] !== 0x3b) {
+          throw new ImageVerificationError('GIF is truncated (missing trailer)');
+        }
+        break;
+      case 'webp': {
+        // The RIFF header records the size of everything after the first 8 bytes
+        const riffSize = (await read(4, 4)).readUInt32LE(0);
+        if (riffSize + 8 > size) {
+          throw new ImageVerificationError(`WebP is truncated (expected ${riffSize + 8} bytes, got ${size})`);
+        }
+        break;
+      }
+      case 'avif': {
+        // Walk the top-level ISO-BMFF boxes, which must exactly cover the file
+        let offset = 0;
+        while (offset < size) {
+          const box = await read(offset, 16);
+          if (box.length < 8) {
+            throw new ImageVerificationError('AVIF is truncated (incomplete box header)');
+          }
+          let boxSize = box.readUInt32BE(0);
+          if (boxSize === 1) {
+            if (box.length < 16) {
+              throw new ImageVerificationError('AVIF is truncated (incomplete box header)');
+            }
+            boxSize = Number(box.readBigUInt64BE(8));
+          } else if (boxSize === 0) {
+            // Box extends to the end of the file
+            boxSize = size - offset;
+          }
+          if (boxSize < 8 || offset + boxSize > size) {
+            throw new ImageVerificationError('AVIF is truncated (box extends past end of file)');
+          }
+          offset += boxSize;
+        }
+        break;
+      }
+    }
+
+    return format;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * SHA-256 of a file's contents, to recognise an image after it was moved or renamed
+ */
+export function imageContentHash(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
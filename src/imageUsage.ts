@@ -0,0 +1,157 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { isInside, type AttributionManager } from './attributionManager.js';
+import { COMPONENT_FILE_NAMES } from './attributionComponents.js';
+import { findProjectFiles, findProjectImages } from './attributionReconciler.js';
+import { IMAGE_EXTENSIONS } from './imageFile.js';
+
+// Files that can refer to images: scripts, components, pages, stylesheets and docs
+export const SOURCE_EXTENSIONS = [
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts',
+  'vue', 'svelte', 'astro',
+  'html', 'htm',
+  'css', 'scss', 'sass', 'less',
+  'md', 'mdx'
+];
+
+// Generated attribution pages and components list every image, which is not using them
+export const GENERATED_FILES = ['**/unsplash-attributions*', ...Object.values(COMPONENT_FILE_NAMES).map(name => `**/${name}`)];
+
+// Anything path-like ending in an image extension, in quotes, url(), Markdown links or plain text
+const IMAGE_REFERENCE = new RegExp(`[^\\s'"\`()<>{}\\[\\],;=|*]+\\.(?:${IMAGE_EXTENSIONS.join('|')})(?![\\w.-])`, 'gi');
+
+export interface ImageUsageOptions {
+  // Delete unused images and their attribution records
+  removeUnused?: boolean;
+}
+
+export interface ImageReference {
+  file: string;
+  line: number;
+}
+
+export interface UnusedImage {
+  id: string;
+  file: string;
+  photographer: string;
+  bytes: number;
+}
+
+export interface UnattributedImage {
+  file: string;
+  references: ImageReference[];
+}
+
+export interface ImageUsageReport {
+  projectRoot: string;
+  // Source files searched for references
+  sourceFiles: number;
+  // Images with an attribution record
+  tracked: number;
+  used: number;
+  unused: UnusedImage[];
+  // Images the code refers to that have no attribution record
+  unattributed: UnattributedImage[];
+  // Photo IDs whose image was deleted, with its record unless the photo is also hotlinked
+  removed: string[];
+}
+
+/**
+ * The path segments of an image reference, without any URL host, query or leading
+ * relative or alias segments such as "..", "@" or "$lib"
+ */
+function referenceSegments(reference: string): string[] {
+  let value = reference.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]+/i, '');
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Not URL-encoded after all
+  }
+  const segments = value.toLowerCase().split(/[\\/]+/).filter(segment => segment !== '' && segment !== '.');
+  const lastSkipped = segments.reduce((last, segment, index) => segment === '..' || /^\W/.test(segment) ? index : last, -1);
+  return segments.slice(lastSkipped + 1);
+}
+
+/**
+ * Find which attributed images a project's source code refers to.
+ * References are matched by file name and as much of the path as the reference gives, so
+ * "/images/hero.jpg", "../assets/hero.jpg" and "@/assets/hero.jpg" all count. Paths built
+ * at runtime from variables are not recognised, so check the report before removing images.
+ * Images in hidden folders or build output are not searched, so they are left out entirely.
+ */
+export async function analyzeImageUsage(
+  manager: AttributionManager,
+  projectRoot: string,
+  options: ImageUsageOptions = {}
+): Promise<ImageUsageReport> {
+  const root = path.resolve(projectRoot);
+  const relative = (file: string) => path.relative(root, file).split(path.sep).join('/');
+
+  // Images by lower-case file name, to match references against
+  const scanned = findProjectImages(root).map(relative);
+  const images = new Map<string, string[]>();
+  for (const image of scanned) {
+    const name = path.posix.basename(image).toLowerCase();
+    images.set(name, [...(images.get(name) ?? []), image]);
+  }
+
+  const sourceFiles = findProjectFiles(root, SOURCE_EXTENSIONS, GENERATED_FILES);
+  const references = new Map<string, ImageReference[]>();
+  for (const sourceFile of sourceFiles) {
+    const lines = (await fs.readFile(sourceFile, 'utf8')).split('\n');
+    lines.forEach((text, index) => {
+      for (const [reference] of text.matchAll(IMAGE_REFERENCE)) {
+        const segments = referenceSegments(reference);
+        // Compared from the file name backwards, for as many folders as both paths have
+        const matches = (images.get(segments.at(-1) ?? '') ?? []).filter(image => {
+          const imageSegments = image.toLowerCase().split('/');
+          const shared = Math.min(segments.length, imageSegments.length);
+          return segments.slice(-shared).join('/') === imageSegments.slice(-shared).join('/');
+        });
+        for (const image of matches) {
+          references.set(image, [...(references.get(image) ?? []), { file: relative(sourceFile), line: index + 1 }]);
+        }
+      }
+    });
+  }
+
+  // Records whose image is still in place in this project; reconciling handles the others.
+  // Only images the scan found count, as references to any other could not have been matched.
+  const scannedImages = new Set(scanned);
+  const records = manager.getAttributionsForProject(root)
+    .map(record => ({ record, file: path.join(record.projectPath ?? '', record.projectFile ?? '') }))
+    .filter(({ record, file }) => record.projectPath && record.projectFile && isInside(root, file) && scannedImages.has(relative(file)));
+  const tracked = new Set(records.map(({ file }) => relative(file)));
+  const report: ImageUsageReport = { projectRoot: root, sourceFiles: sourceFiles.length, tracked: records.length, used: 0, unused: [], unattributed: [], removed: [] };
+
+  for (const { record, file } of records) {
+    if (references.has(relative(file))) {
+      report.used++;
+      continue;
+    }
+    report.unused.push({ id: record.id, file: relative(file), photographer: record.photographer, bytes: fs.statSync(file).size });
+    if (options.removeUnused) {
+      // Never delete anything outside the project, whatever the record says
+      if (!isInside(root, file)) {
+        throw new Error(`Refusing to remove ${file}, which is outside ${root}`);
+      }
+      await fs.remove(file);
+      // Photos the code also hotlinks keep their record, without the deleted file
+      if (record.hotlinks?.length) {
+        await manager.updateAttribution(record.id, { projectPath: undefined, projectFile: undefined, contentHash: undefined });
+      } else {
+        await manager.removeAttribution(record.id);
+      }
+      report.removed.push(record.id);
+    }
+  }
+
+  for (const [image, imageReferences] of references) {
+    if (!tracked.has(image)) {
+      report.unattributed.push({ file: image, references: imageReferences });
+    }
+  }
+  report.unattributed.sort((a, b) => a.file.localeCompare(b.file));
+
+  return report;
+}
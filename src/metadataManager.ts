@@ -1,17 +1,38 @@
 import { ExifTool } from 'exiftool-vendored';
 import { Photo } from './unsplashTypes.js';
+import { METADATA_FORMATS, MetadataFormat } from './settings.js';
 import path from 'path';
 
+// Page of a photo on Unsplash, as written into WebStatement and the EXIF copyright
+const UNSPLASH_PHOTO_URL = /https:\/\/unsplash\.com\/photos\/[\w-]+/;
+
+// Attribution fields written by addAttributionMetadata, from whichever tag group has them
+export interface AttributionMetadata {
+  title?: string;
+  description?: string;
+  creator?: string;
+  creatorUrl?: string;
+  credit?: string;
+  source?: string;
+  rights?: string;
+  webStatement?: string;
+  usageTerms?: string;
+  identifier?: string;
+}
+
 /**
  * Class for handling image metadata operations using ExifTool
  */
 export class MetadataManager {
   private exiftool!: ExifTool;
   private initialized: boolean = false;
+  private formats: MetadataFormat[];
 
-  constructor() {
+  constructor(options: { formats?: MetadataFormat[] } = {}) {
     // Lazy initialization to avoid overhead when not used
     this.initialized = false;
+    // Tag groups written by default
+    this.formats = options.formats ?? [...METADATA_FORMATS];
   }
 
   /**
@@ -40,9 +61,17 @@ export class MetadataManager {
   }
 
   /**
-   * Add Unsplash attribution metadata to an image
+   * Add Unsplash attribution metadata to an image.
+   * ExifTool writes cannot be interrupted, so an aborted signal only prevents starting one.
+   * Only tags in the given groups (XMP, IPTC, EXIF) are written.
    */
-  public async addAttributionMetadata(filePath: string, photo: Photo): Promise<void> {
+  public async addAttributionMetadata(
+    filePath: string,
+    photo: Photo,
+    signal?: AbortSignal,
+    formats: MetadataFormat[] = this.formats
+  ): Promise<void> {
+    signal?.throwIfAborted();
     await this.ensureInitialized();
 
     try {
@@ -70,8 +99,15 @@ export class MetadataManager {
         'IPTC:CreatorWorkURL': photographerUrl
       } as any; // Use 'any' type assertion to bypass type checking
 
-      // Write metadata to file
-      await this.exiftool.write(filePath, metadata);
+      // Drop tags from groups that are not enabled
+      for (const tag of Object.keys(metadata)) {
+        if (!formats.includes(tag.split(':')[0] as MetadataFormat)) {
+          delete metadata[tag];
+        }
+      }
+
+      // Write metadata in place, without leaving a "_original" backup next to the image
+      await this.exiftool.write(filePath, metadata, ['-overwrite_original']);
       console.log(`Added attribution metadata to ${path.basename(filePath)}`);
     } catch (error) {
       console.error(`Error adding metadata to ${filePath}:`, error);
@@ -80,30 +116,70 @@ export class MetadataManager {
   }
 
   /**
-   * Extract attribution metadata from an image
+   * Which Unsplash photo an image is, from the metadata written by addAttributionMetadata.
+   * The photo ID is only in XMP; with just IPTC or EXIF, the photo's page URL is all there is.
+   * Returns an empty object for images without Unsplash metadata.
    */
-  public async extractAttributionMetadata(filePath: string): Promise<Record<string, any>> {
+  public async readUnsplashMetadata(filePath: string): Promise<{ photoId?: string; sourceUrl?: string }> {
+    return unsplashPhotoOf(await this.readAttributionMetadata(filePath));
+  }
+
+  /**
+   * Read the attribution fields of an image. Throws when the file cannot be read.
+   */
+  public async readAttributionMetadata(filePath: string): Promise<AttributionMetadata> {
     await this.ensureInitialized();
 
+    // ExifTool returns tags without their group prefix; list tags such as XMP creators come as arrays
+    const tags = await this.exiftool.read(filePath) as Record<string, unknown>;
+    const text = (...names: string[]): string | undefined => {
+      for (const name of names) {
+        const value = Array.isArray(tags[name]) ? (tags[name] as unknown[])[0] : tags[name];
+        if (typeof value === 'string' && value.trim() !== '') {
+          return value.trim();
+        }
+      }
+      return undefined;
+    };
+
+    // XMP:CreatorWorkURL is part of the IPTC creator contact structure
+    const contactInfo = tags.CreatorContactInfo as { CiUrlWork?: unknown } | undefined;
+    const creatorUrl = typeof contactInfo?.CiUrlWork === 'string' ? contactInfo.CiUrlWork.trim() || undefined : undefined;
+
+    return {
+      title: text('Title', 'ObjectName'),
+      description: text('Description', 'ImageDescription'),
+      creator: text('Creator', 'By-line', 'Artist'),
+      creatorUrl: creatorUrl ?? text('CreatorWorkURL'),
+      credit: text('Credit'),
+      source: text('Source'),
+      rights: text('Rights', 'CopyrightNotice', 'Copyright'),
+      webStatement: text('WebStatement'),
+      usageTerms: text('UsageTerms'),
+      identifier: text('Identifier')
+    };
+  }
+
+  /**
+   * Extract attribution metadata from an image, or nothing when it cannot be read
+   */
+  public async extractAttributionMetadata(filePath: string): Promise<AttributionMetadata> {
     try {
-      // Read metadata from file
-      const metadata = await this.exiftool.read(filePath) as any;
-      
-      // Extract relevant attribution fields with type assertions
-      const attributionData = {
-        title: (metadata.XMP?.Title || metadata.IPTC?.ObjectName) as string | undefined,
-        creator: (metadata.XMP?.Creator || metadata.IPTC?.Creator || metadata.EXIF?.Artist) as string | undefined,
-        source: (metadata.XMP?.Source || metadata.IPTC?.Source) as string | undefined,
-        rights: (metadata.XMP?.Rights || metadata.IPTC?.CopyrightNotice || metadata.EXIF?.Copyright) as string | undefined,
-        webStatement: metadata.XMP?.WebStatement as string | undefined,
-        usageTerms: metadata.XMP?.UsageTerms as string | undefined,
-        identifier: metadata.XMP?.Identifier as string | undefined
-      };
-
-      return attributionData;
+      return await this.readAttributionMetadata(filePath);
     } catch (error) {
       console.error(`Error extracting metadata from ${filePath}:`, error);
       return {};
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * The Unsplash photo ID and page URL in attribution metadata, where present
+ */
+export function unsplashPhotoOf(metadata: AttributionMetadata): { photoId?: string; sourceUrl?: string } {
+  const sourceUrl = [metadata.webStatement, metadata.rights, metadata.description]
+    .map(value => value?.match(UNSPLASH_PHOTO_URL)?.[0])
+    .find(Boolean);
+  const fromUnsplash = Boolean(sourceUrl) || /unsplash/i.test(`${metadata.source ?? ''} ${metadata.credit ?? ''}`);
+  return { photoId: fromUnsplash ? metadata.identifier : undefined, sourceUrl };
+}
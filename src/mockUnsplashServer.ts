@@ -0,0 +1,544 @@
+import express, { type Request, type Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Photo, Collection, Topic } from './unsplashTypes.js';
+
+/**
+ * A small stand-in for the Unsplash API, used for tests, CI and offline demos.
+ *
+ * Point the MCP server at it with UNSPLASH_API_URL=http://localhost:4010.
+ * Fixture photo URLs already point back at the mock, so no image host override is needed.
+ */
+
+// 1x1 white baseline JPEG served for every fixture image
+export const FIXTURE_JPEG = Buffer.from(
+  '/9j/4AAQSkZJRgABAQEAYABgAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAAAgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx8vP09fb3+Pn6/9oACAEBAAA/APn+iiigD//Z',
+  'base64'
+);
+
+// 1x1 white PNG served when an image is requested with fm=png
+export const FIXTURE_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC',
+  'base64'
+);
+
+// Seed data for the fixture photos: [description, width, height, photographer username, photographer name]
+const FIXTURE_SEEDS: Array<[string, number, number, string, string | null]> = [
+  ['Mountain lake at sunrise in nature', 6000, 4000, 'alpine_ada', 'Ada Alpine'],
+  ['Green forest trail with tall trees', 4000, 6000, 'alpine_ada', 'Ada Alpine'],
+  ['Modern office workspace with laptop on desk', 5472, 3648, 'desk_dan', 'Dan Desk'],
+  ['Business team meeting in a bright office', 6720, 4480, 'desk_dan', 'Dan Desk'],
+  ['Minimal product photography on white background', 3000, 3000, 'studio_sam', null],
+  ['Abstract texture background in blue tones', 4500, 3000, 'studio_sam', null],
+  ['Professional headshot portrait of a woman', 3456, 5184, 'portrait_pia', 'Pia Portrait'],
+  ['Professional landscape wide angle of a desert', 8000, 3000, 'portrait_pia', 'Pia Portrait'],
+  ['City skyline at night with lights', 5000, 3333, 'urban_uma', 'Uma Urban'],
+  ['Coffee cup on a wooden table', 2400, 2400, 'urban_uma', 'Uma Urban'],
+  ['Ocean waves crashing on a beach landscape', 1200, 800, 'coastal_cy', 'Cy Coastal'],
+  ['Small abstract pattern thumbnail', 640, 480, 'coastal_cy', 'Cy Coastal']
+];
+
+// Fixture collections and topics: [id or slug, title, description, photo numbers]
+const FIXTURE_COLLECTIONS: Array<[string, string, string, number[]]> = [
+  ['1001', 'Brand Offices', 'Workspaces and meetings for our brand', [3, 4, 10]],
+  ['1002', 'Nature Escapes', 'Calm outdoor scenery', [1, 2, 8, 11]]
+];
+
+const FIXTURE_TOPICS: Array<[string, string, string, number[]]> = [
+  ['nature', 'Nature', 'Let nature inspire you', [1, 2, 8, 11]],
+  ['business-work', 'Business & Work', 'Reflecting the realities of the modern workplace', [3, 4, 7]]
+];
+
+/**
+ * Build the fixture photos served by the mock, with URLs rooted at the mock's base URL
+ */
+export function createFixturePhotos(baseUrl: string): Photo[] {
+  return FIXTURE_SEEDS.map(([description, width, height, username, name], index) => {
+    const id = `mock-photo-${index + 1}`;
+    const imageUrl = `${baseUrl}/images/${id}`;
+
+    return {
+      id,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      width,
+      height,
+      color: '#f3f3f3',
+      blur_hash: null,
+      description,
+      alt_description: description.toLowerCase(),
+      urls: {
+        raw: `${imageUrl}?ixid=${id}`,
+        full: `${imageUrl}?ixid=${id}&q=85`,
+        regular: `${imageUrl}?ixid=${id}&w=1080`,
+        small: `${imageUrl}?ixid=${id}&w=400`,
+        thumb: `${imageUrl}?ixid=${id}&w=200`
+      },
+      links: {
+        self: `${baseUrl}/photos/${id}`,
+        html: `https://unsplash.com/photos/${id}`,
+        download: `https://unsplash.com/photos/${id}/download`,
+        download_location: `${baseUrl}/photos/${id}/download`
+      },
+      user: {
+        id: `mock-user-${username}`,
+        username,
+        name
+      },
+      likes: ((index * 37) % 11) * 25,
+      // One promoted photo, like the sponsored results Unsplash mixes into searches
+      sponsorship: index === 8
+        ? { impression_urls: [], tagline: 'Made to change', tagline_url: 'https://example.com', sponsor: { id: 'mock-sponsor', username: 'sponsor_co', name: 'Sponsor Co' } }
+        : null
+    };
+  });
+}
+
+/**
+ * Add the fields Unsplash only returns on photo details (tags, EXIF, location, ...)
+ */
+function withPhotoDetails(photo: Photo): Photo {
+  const words = (photo.description ?? '').toLowerCase().split(/\s+/).filter(word => word.length > 3);
+
+  return {
+    ...photo,
+    downloads: (photo.likes ?? 0) * 12,
+    tags: words.slice(0, 3).map(title => ({ type: 'search', title })),
+    exif: {
+      make: 'Canon',
+      model: 'EOS R5',
+      name: 'Canon, EOS R5',
+      exposure_time: '1/200',
+      aperture: '4.0',
+      focal_length: '35.0',
+      iso: 100
+    },
+    location: {
+      name: 'Berlin, Germany',
+      city: 'Berlin',
+      country: 'Germany',
+      position: { latitude: 52.52, longitude: 13.405 }
+    },
+    topic_submissions: {}
+  };
+}
+
+export interface MockUnsplashOptions {
+  // Requests allowed in total, reported through X-Ratelimit-* headers (demo keys get 50 per hour)
+  rateLimit?: number;
+  // Number of API requests to answer with 503 before behaving normally
+  serverErrors?: number;
+  // Number of image downloads to cut off halfway through the body
+  droppedImages?: number;
+  // Number of image downloads to answer with a complete response of a truncated image
+  corruptImages?: number;
+  // Delay before serving each image, to simulate slow downloads
+  imageDelayMs?: number;
+}
+
+/**
+ * Build the fixture collections served by the mock
+ */
+export function createFixtureCollections(baseUrl: string, photos: Photo[]): Array<Collection & { photoIds: string[] }> {
+  return FIXTURE_COLLECTIONS.map(([id, title, description, photoNumbers]) => {
+    const photoIds = photoNumbers.map(n => `mock-photo-${n}`);
+    const cover = photos.find(photo => photo.id === photoIds[0]);
+
+    return {
+      id,
+      title,
+      description,
+      published_at: '2024-01-01T00:00:00Z',
+      total_photos: photoIds.length,
+      private: false,
+      cover_photo: cover ? { id: cover.id, width: cover.width, height: cover.height, urls: cover.urls } : null,
+      user: { id: 'mock-user-curator', username: 'brand_curator', name: 'Brand Curator' },
+      links: {
+        self: `${baseUrl}/collections/${id}`,
+        html: `https://unsplash.com/collections/${id}`,
+        photos: `${baseUrl}/collections/${id}/photos`
+      },
+      photoIds
+    };
+  });
+}
+
+/**
+ * Build the fixture topics served by the mock
+ */
+export function createFixtureTopics(baseUrl: string, photos: Photo[]): Array<Topic & { photoIds: string[] }> {
+  return FIXTURE_TOPICS.map(([slug, title, description, photoNumbers], index) => {
+    const photoIds = photoNumbers.map(n => `mock-photo-${n}`);
+    const cover = photos.find(photo => photo.id === photoIds[0]);
+
+    return {
+      id: `mock-topic-${index + 1}`,
+      slug,
+      title,
+      description,
+      published_at: '2024-01-01T00:00:00Z',
+      featured: true,
+      total_photos: photoIds.length,
+      status: 'open',
+      cover_photo: cover ? { id: cover.id, width: cover.width, height: cover.height, urls: cover.urls } : null,
+      links: {
+        self: `${baseUrl}/topics/${slug}`,
+        html: `https://unsplash.com/t/${slug}`,
+        photos: `${baseUrl}/topics/${slug}/photos`
+      },
+      photoIds
+    };
+  });
+}
+
+/**
+ * Match a fixture photo against a search query (any term) and orientation filter
+ */
+function matchesFilters(photo: Photo, query: string, orientation: unknown): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = `${photo.description} ${photo.alt_description}`.toLowerCase();
+  if (terms.length > 0 && !terms.some(term => text.includes(term))) return false;
+
+  const ratio = photo.width / photo.height;
+  if (orientation === 'landscape' && ratio <= 1.1) return false;
+  if (orientation === 'portrait' && ratio >= 0.9) return false;
+  if (orientation === 'squarish' && (ratio < 0.9 || ratio > 1.1)) return false;
+  return true;
+}
+
+/**
+ * Build a deterministic statistics time series for a fixture photo
+ */
+function createFixtureStatistics(id: string, quantity: number) {
+  const seed = Number(id.replace(/\D/g, '')) || 1;
+  const metric = (perDay: number) => {
+    const values = Array.from({ length: quantity }, (_, day) => ({
+      date: new Date(Date.UTC(2024, 0, 1 + day)).toISOString().slice(0, 10),
+      value: perDay + (day % 3)
+    }));
+    const change = values.reduce((total, entry) => total + entry.value, 0);
+    return {
+      total: change * 10,
+      historical: { change, resolution: 'days', quantity, values }
+    };
+  };
+
+  return { id, downloads: metric(seed * 2), views: metric(seed * 40), likes: metric(seed) };
+}
+
+/**
+ * Create the express app implementing the mocked Unsplash endpoints
+ */
+export function createMockUnsplashApp(getBaseUrl: () => string, options: MockUnsplashOptions = {}): express.Express {
+  const app = express();
+  let photos: Photo[] | null = null;
+  const fixtures = () => (photos ??= createFixturePhotos(getBaseUrl()));
+  const collections = () => createFixtureCollections(getBaseUrl(), fixtures());
+  const topics = () => createFixtureTopics(getBaseUrl(), fixtures());
+
+  // Limit photos to the union of the given comma-separated collection IDs
+  const inCollections = (photo: Photo, ids: unknown) => {
+    if (typeof ids !== 'string' || !ids) return true;
+    const wanted = ids.split(',');
+    return collections().some(c => wanted.includes(c.id) && c.photoIds.includes(photo.id));
+  };
+
+  // Strip mock-only bookkeeping from collections and topics
+  const publicGroup = <T extends { photoIds: string[] }>({ photoIds, ...group }: T) => group;
+
+  const paginate = <T>(items: T[], query: Request['query'], maxPerPage: number = 30) => {
+    const page = Math.max(1, Number(query.page) || 1);
+    const perPage = Math.min(maxPerPage, Math.max(1, Number(query.per_page) || 10));
+    return items.slice((page - 1) * perPage, page * perPage);
+  };
+
+  const rateLimit = options.rateLimit ?? 5000;
+  let remaining = rateLimit;
+  let serverErrors = options.serverErrors ?? 0;
+  let droppedImages = options.droppedImages ?? 0;
+  let corruptImages = options.corruptImages ?? 0;
+
+  // Unsplash rejects API requests without a Client-ID, and counts the rest against the quota
+  const requireClientId = (req: Request, res: Response, next: () => void) => {
+    if (!req.get('authorization')?.startsWith('Client-ID ')) {
+      res.status(401).json({ errors: ['OAuth error: The access token is invalid'] });
+      return;
+    }
+
+    if (serverErrors > 0) {
+      serverErrors--;
+      res.status(503).json({ errors: ['Service Unavailable'] });
+      return;
+    }
+
+    res.set('X-Ratelimit-Limit', String(rateLimit));
+
+    if (remaining === 0) {
+      res.set('X-Ratelimit-Remaining', '0');
+      res.status(403).type('text/plain').send('Rate Limit Exceeded');
+      return;
+    }
+
+    remaining--;
+    res.set('X-Ratelimit-Remaining', String(remaining));
+    next();
+  };
+
+  app.get('/search/photos', requireClientId, (req, res) => {
+    const query = String(req.query.query ?? '').toLowerCase();
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const perPage = Math.min(50, Math.max(1, Number(req.query.per_page) || 10));
+
+    if (!query.trim()) {
+      res.status(400).json({ errors: ['query is missing'] });
+      return;
+    }
+
+    let matches = fixtures().filter(photo =>
+      matchesFilters(photo, query, req.query.orientation) && inCollections(photo, req.query.collections)
+    );
+
+    // Fixtures are listed oldest first
+    if (req.query.order_by === 'latest') {
+      matches = [...matches].reverse();
+    }
+
+    res.json({
+      total: matches.length,
+      total_pages: Math.ceil(matches.length / perPage),
+      results: matches.slice((page - 1) * perPage, page * perPage)
+    });
+  });
+
+  app.get('/photos', requireClientId, (req, res) => {
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const perPage = Math.min(30, Math.max(1, Number(req.query.per_page) || 10));
+    res.json(fixtures().slice((page - 1) * perPage, page * perPage));
+  });
+
+  app.get('/photos/random', requireClientId, (req, res) => {
+    const count = Math.min(30, Math.max(1, Number(req.query.count) || 1));
+    const matches = fixtures()
+      .filter(photo =>
+        matchesFilters(photo, String(req.query.query ?? ''), req.query.orientation) &&
+        inCollections(photo, req.query.collections)
+      )
+      .sort(() => Math.random() - 0.5)
+      .slice(0, count);
+
+    if (matches.length === 0) {
+      res.status(404).json({ errors: ["Couldn't find Photo"] });
+      return;
+    }
+
+    // Like Unsplash, return a single object unless count was given
+    res.json(req.query.count ? matches : matches[0]);
+  });
+
+  app.get('/photos/:id/statistics', requireClientId, (req, res) => {
+    if (!fixtures().some(p => p.id === req.params.id)) {
+      res.status(404).json({ errors: ["Couldn't find Photo"] });
+      return;
+    }
+    const quantity = Math.min(30, Math.max(1, Number(req.query.quantity) || 30));
+    res.json(createFixtureStatistics(req.params.id, quantity));
+  });
+
+  app.get('/photos/:id', requireClientId, (req, res) => {
+    const photo = fixtures().find(p => p.id === req.params.id);
+    if (!photo) {
+      res.status(404).json({ errors: ["Couldn't find Photo"] });
+      return;
+    }
+    res.json(withPhotoDetails(photo));
+  });
+
+  app.get('/photos/:id/download', requireClientId, (req, res) => {
+    const photo = fixtures().find(p => p.id === req.params.id);
+    if (!photo) {
+      res.status(404).json({ errors: ["Couldn't find Photo"] });
+      return;
+    }
+    res.json({ url: photo.urls.full });
+  });
+
+  app.get('/search/collections', requireClientId, (req, res) => {
+    const terms = String(req.query.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const perPage = Math.min(30, Math.max(1, Number(req.query.per_page) || 10));
+    const matches = collections().filter(collection => {
+      const text = `${collection.title} ${collection.description}`.toLowerCase();
+      return terms.some(term => text.includes(term));
+    });
+
+    res.json({
+      total: matches.length,
+      total_pages: Math.ceil(matches.length / perPage),
+      results: paginate(matches, req.query).map(publicGroup)
+    });
+  });
+
+  app.get('/collections/:id', requireClientId, (req, res) => {
+    const collection = collections().find(c => c.id === req.params.id);
+    if (!collection) {
+      res.status(404).json({ errors: ["Couldn't find Collection"] });
+      return;
+    }
+    res.json(publicGroup(collection));
+  });
+
+  app.get('/collections/:id/photos', requireClientId, (req, res) => {
+    const collection = collections().find(c => c.id === req.params.id);
+    if (!collection) {
+      res.status(404).json({ errors: ["Couldn't find Collection"] });
+      return;
+    }
+    const matches = fixtures().filter(photo =>
+      collection.photoIds.includes(photo.id) && matchesFilters(photo, '', req.query.orientation)
+    );
+    res.set('X-Total', String(matches.length));
+    res.json(paginate(matches, req.query));
+  });
+
+  app.get('/topics', requireClientId, (req, res) => {
+    res.json(paginate(topics(), req.query).map(publicGroup));
+  });
+
+  app.get('/topics/:idOrSlug/photos', requireClientId, (req, res) => {
+    const topic = topics().find(t => t.id === req.params.idOrSlug || t.slug === req.params.idOrSlug);
+    if (!topic) {
+      res.status(404).json({ errors: ["Couldn't find Topic"] });
+      return;
+    }
+    let matches = fixtures().filter(photo =>
+      topic.photoIds.includes(photo.id) && matchesFilters(photo, '', req.query.orientation)
+    );
+    if (req.query.order_by === 'latest') {
+      matches = [...matches].reverse();
+    }
+    res.set('X-Total', String(matches.length));
+    res.json(paginate(matches, req.query));
+  });
+
+  app.get('/users/:username', requireClientId, (req, res) => {
+    const photosByUser = fixtures().filter(photo => photo.user.username === req.params.username);
+    if (photosByUser.length === 0) {
+      res.status(404).json({ errors: ["Couldn't find User"] });
+      return;
+    }
+
+    const baseUrl = getBaseUrl();
+    const { username } = req.params;
+    res.json({
+      ...photosByUser[0].user,
+      bio: `Mock photographer ${username}`,
+      location: 'Offline',
+      total_photos: photosByUser.length,
+      total_likes: 0,
+      total_collections: 0,
+      for_hire: false,
+      profile_image: {
+        small: `${baseUrl}/images/${photosByUser[0].id}?w=32`,
+        medium: `${baseUrl}/images/${photosByUser[0].id}?w=64`,
+        large: `${baseUrl}/images/${photosByUser[0].id}?w=128`
+      },
+      links: {
+        self: `${baseUrl}/users/${username}`,
+        html: `https://unsplash.com/@${username}`,
+        photos: `${baseUrl}/users/${username}/photos`
+      }
+    });
+  });
+
+  app.get('/users/:username/photos', requireClientId, (req, res) => {
+    const photosByUser = fixtures().filter(photo => photo.user.username === req.params.username);
+    if (photosByUser.length === 0) {
+      res.status(404).json({ errors: ["Couldn't find User"] });
+      return;
+    }
+    const matches = photosByUser.filter(photo => matchesFilters(photo, '', req.query.orientation));
+    res.set('X-Total', String(matches.length));
+    res.json(paginate(matches, req.query));
+  });
+
+  app.get('/images/:id', async (req, res) => {
+    if (!fixtures().some(p => p.id === req.params.id)) {
+      res.status(404).end();
+      return;
+    }
+    if (options.imageDelayMs) {
+      await new Promise(resolve => setTimeout(resolve, options.imageDelayMs));
+    }
+
+    // Like imgix, honor fm=png and fall back to JPEG for formats the mock has no fixture for
+    const isPng = req.query.fm === 'png';
+    let image = isPng ? FIXTURE_PNG : FIXTURE_JPEG;
+    res.type(isPng ? 'image/png' : 'image/jpeg');
+
+    if (corruptImages > 0) {
+      corruptImages--;
+      image = image.subarray(0, image.length - 4);
+    }
+
+    // Serve byte ranges so interrupted downloads can resume
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.get('range') ?? '');
+    let body = image;
+    if (range) {
+      const start = Number(range[1]);
+      const end = range[2] ? Math.min(Number(range[2]), image.length - 1) : image.length - 1;
+      if (start >= image.length) {
+        res.status(416).set('Content-Range', `bytes */${image.length}`).end();
+        return;
+      }
+      body = image.subarray(start, end + 1);
+      res.status(206).set('Content-Range', `bytes ${start}-${end}/${image.length}`);
+    }
+
+    if (droppedImages > 0) {
+      droppedImages--;
+      // Promise the whole body, send half of it, then drop the connection once the client has read it
+      res.set('Content-Length', String(body.length));
+      res.flushHeaders();
+      res.write(body.subarray(0, Math.floor(body.length / 2)), () => setTimeout(() => res.destroy(), 100));
+      return;
+    }
+
+    res.send(body);
+  });
+
+  return app;
+}
+
+export interface MockUnsplashServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+export interface MockUnsplashServerOptions extends MockUnsplashOptions {
+  // Port 0 picks a free port
+  port?: number;
+  host?: string;
+}
+
+/**
+ * Start the mock Unsplash server
+ */
+export async function startMockUnsplashServer(options: MockUnsplashServerOptions = {}): Promise<MockUnsplashServer> {
+  const { port = 0, host = '127.0.0.1', ...appOptions } = options;
+  let url = '';
+  const app = createMockUnsplashApp(() => url, appOptions);
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listener = app.listen(port, host, () => resolve(listener));
+    listener.on('error', reject);
+  });
+
+  const address = server.address() as AddressInfo;
+  url = `http://${host}:${address.port}`;
+
+  return {
+    url,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
@@ -0,0 +1,137 @@
+import type { Progress } from 'fastmcp';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AttributionDatabaseError } from './attributionDatabase.js';
+import type { Attribution, AttributionManager } from './attributionManager.js';
+import { mapSettled } from './concurrency.js';
+import { downloadFileNames } from './imageFile.js';
+import { Photo } from './unsplashTypes.js';
+
+export interface PlannedDownload {
+  photo: Photo;
+  index: number;
+  fileName: string;
+}
+
+export interface PhotoDownloadOptions<T extends PlannedDownload> {
+  // Directory the planned file names are in
+  directory: string;
+  // Number of photos downloaded at the same time
+  concurrency: number;
+  // Where downloaded photos are recorded
+  attributions: AttributionManager;
+  signal?: AbortSignal;
+  // Only given when the client asked for progress notifications
+  reportProgress?: (progress: Progress) => Promise<void>;
+  // Download a photo, returning the path of the finished file
+  download: (planned: T) => Promise<string>;
+  // Embed attribution metadata in a downloaded file, returning whether it was added
+  embedMetadata?: (filePath: string, photo: Photo) => Promise<boolean>;
+}
+
+export interface DownloadedPhoto<T extends PlannedDownload> {
+  planned: T;
+  filePath: string;
+  metadataAdded: boolean;
+  // Why the attribution could not be recorded, such as a database locked by another process
+  attributionError?: string;
+}
+
+export interface PhotoDownloadResult<T extends PlannedDownload> {
+  // In the order of the planned downloads, with the error of each failed one
+  results: PromiseSettledResult<DownloadedPhoto<T>>[];
+  // The signal aborted, and the files and records were put back as they were
+  cancelled: boolean;
+  removedFiles: number;
+}
+
+/**
+ * Download photos in parallel and record their attributions, reporting progress as each
+ * one finishes. A failed download does not stop the others. When the signal aborts, the
+ * files and attribution records this batch created are removed again, and the ones it
+ * overwrote are restored.
+ */
+export async function downloadPhotos<T extends PlannedDownload>(
+  planned: T[],
+  options: PhotoDownloadOptions<T>
+): Promise<PhotoDownloadResult<T>> {
+  const { attributions, signal, reportProgress } = options;
+  const total = planned.length;
+  let completed = 0;
+
+  // Files created by this batch, and what was there before: a copy of each overwritten file,
+  // and each record as it was (null when there was none)
+  const createdFiles: string[] = [];
+  const overwrittenFiles = new Map<string, string>();
+  const previousAttributions = new Map<string, Attribution | null>();
+  let backupDir: Promise<string> | undefined;
+  await reportProgress?.({ progress: 0, total });
+
+  try {
+    const results = await mapSettled(planned, options.concurrency, async (item) => {
+      try {
+        signal?.throwIfAborted();
+        // Any of the files the download can end up replacing, whichever format is served
+        for (const fileName of downloadFileNames(item.fileName)) {
+          const existingPath = path.join(options.directory, fileName);
+          if (fs.existsSync(existingPath) && !overwrittenFiles.has(existingPath)) {
+            // Claimed before waiting, so parallel downloads share one directory and never a name
+            backupDir ??= fs.mkdtemp(path.join(os.tmpdir(), 'unsplash-overwritten-'));
+            const backup = path.join(await backupDir, String(overwrittenFiles.size));
+            overwrittenFiles.set(existingPath, backup);
+            await fs.copy(existingPath, backup);
+          }
+        }
+
+        const filePath = await options.download(item);
+        createdFiles.push(filePath);
+
+        const metadataAdded = options.embedMetadata ? await options.embedMetadata(filePath, item.photo) : false;
+
+        // Add to attribution database once the file is final, so its content hash matches
+        if (!previousAttributions.has(item.photo.id)) {
+          previousAttributions.set(item.photo.id, attributions.getAttribution(item.photo.id));
+        }
+        try {
+          await attributions.addAttribution(item.photo, filePath);
+        } catch (error) {
+          // The file is downloaded either way, so it is reported with the missing record
+          if (!(error instanceof AttributionDatabaseError)) {
+            throw error;
+          }
+          return { planned: item, filePath, metadataAdded, attributionError: error.message };
+        }
+
+        return { planned: item, filePath, metadataAdded };
+      } finally {
+        completed++;
+        await reportProgress?.({ progress: completed, total });
+      }
+    });
+
+    if (signal?.aborted) {
+      await Promise.all(createdFiles.map(file => fs.rm(file, { force: true })));
+      for (const [file, backup] of overwrittenFiles) {
+        // Missing when copying it failed, before anything was downloaded over the file
+        if (fs.existsSync(backup)) {
+          await fs.copy(backup, file);
+        }
+      }
+      for (const [id, previous] of previousAttributions) {
+        if (previous) {
+          await attributions.saveAttribution(previous);
+        } else {
+          await attributions.removeAttribution(id);
+        }
+      }
+      return { results, cancelled: true, removedFiles: createdFiles.length };
+    }
+
+    return { results, cancelled: false, removedFiles: 0 };
+  } finally {
+    if (backupDir) {
+      await fs.remove(await backupDir);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { UnsplashClient } from './unsplashClient.js';
+import { Photo, SearchPhotosOptions } from './unsplashTypes.js';
+
+// Unsplash caps per_page at 30 for search requests
+export const MAX_SEARCH_PER_PAGE = 30;
+
+export interface PhotoConstraints {
+  minWidth?: number;
+  minHeight?: number;
+  // Skip promoted photos and Unsplash+ photos that need a paid license
+  excludeSponsored?: boolean;
+}
+
+export interface ConstrainedSearchOptions extends PhotoConstraints {
+  // Number of photos wanted
+  count: number;
+  // Maximum number of result pages to request
+  maxPages: number;
+  perPage?: number;
+  // Fill up with photos that break the constraints when not enough match
+  relaxConstraints?: boolean;
+  // Extra per-page filtering/ranking applied after the constraints
+  refine?: (photos: Photo[]) => Photo[];
+  // Order of the matching photos before the requested count is taken
+  sort?: (a: Photo, b: Photo) => number;
+  // Stops paging when aborted
+  signal?: AbortSignal;
+}
+
+export interface ConstrainedSearchResult {
+  photos: Photo[];
+  // For list endpoints without totals, the number of photos seen
+  total: number;
+  totalPages: number;
+  pagesScanned: number;
+  matchedCount: number;
+  constraintsRelaxed: boolean;
+}
+
+/**
+ * Whether a photo is promoted by a sponsor or is an Unsplash+ photo
+ */
+export function isSponsored(photo: Photo): boolean {
+  return !!photo.sponsorship || photo.premium === true;
+}
+
+/**
+ * Check whether a photo satisfies the requested constraints
+ */
+export function meetsConstraints(photo: Photo, constraints: PhotoConstraints): boolean {
+  if (constraints.minWidth && photo.width < constraints.minWidth) return false;
+  if (constraints.minHeight && photo.height < constraints.minHeight) return false;
+  if (constraints.excludeSponsored && isSponsored(photo)) return false;
+
+  return true;
+}
+
+/**
+ * Sort photos with the most likes first
+ */
+export function byLikes(a: Photo, b: Photo): number {
+  return (b.likes ?? 0) - (a.likes ?? 0);
+}
+
+export interface PhotoPage {
+  results: Photo[];
+  // Search endpoints report totals; list endpoints do not
+  total?: number;
+  totalPages?: number;
+}
+
+export type PhotoPageFetcher = (page: number, perPage: number) => Promise<PhotoPage>;
+
+/**
+ * Page through search results until enough photos meet every constraint
+ * or the page budget runs out
+ */
+export async function searchWithConstraints(
+  client: UnsplashClient,
+  query: string,
+  options: ConstrainedSearchOptions & {
+    // Native API filters such as orientation and color, sent with every page request
+    filters?: Omit<SearchPhotosOptions, 'page' | 'perPage'>;
+  }
+): Promise<ConstrainedSearchResult> {
+  return collectWithConstraints(async (page, perPage) => {
+    const results = await client.searchPhotos(query, { ...options.filters, page, perPage }, options.signal);
+    return { results: results.results, total: results.total, totalPages: results.total_pages };
+  }, options);
+}
+
+/**
+ * Page through any photo listing until enough photos meet every constraint
+ * or the page budget runs out
+ */
+export async function collectWithConstraints(
+  fetchPage: PhotoPageFetcher,
+  options: ConstrainedSearchOptions
+): Promise<ConstrainedSearchResult> {
+  const perPage = Math.min(options.perPage ?? MAX_SEARCH_PER_PAGE, MAX_SEARCH_PER_PAGE);
+  const matched: Photo[] = [];
+  const unmatched: Photo[] = [];
+  const seenIds = new Set<string>();
+
+  let total = 0;
+  let totalPages = 1;
+  let page = 1;
+
+  while (page <= options.maxPages && page <= totalPages && matched.length < options.count) {
+    options.signal?.throwIfAborted();
+    const results = await fetchPage(page, perPage);
+
+    // Results can shift between pages while paging, so skip duplicates
+    const fresh = results.results.filter(photo => !seenIds.has(photo.id));
+    fresh.forEach(photo => seenIds.add(photo.id));
+
+    // Without totals, a full page means there may be another one
+    total = results.total ?? seenIds.size;
+    totalPages = results.totalPages ?? (results.results.length === perPage ? page + 1 : page);
+    page++;
+
+    let pageMatches = fresh.filter(photo => meetsConstraints(photo, options));
+    if (options.refine) {
+      pageMatches = options.refine(pageMatches);
+    }
+
+    const matchedIds = new Set(pageMatches.map(photo => photo.id));
+    matched.push(...pageMatches);
+    unmatched.push(...fresh.filter(photo => !matchedIds.has(photo.id)));
+  }
+
+  if (options.sort) {
+    matched.sort(options.sort);
+  }
+
+  const photos = matched.slice(0, options.count);
+  let constraintsRelaxed = false;
+
+  if (photos.length < options.count && options.relaxConstraints && unmatched.length > 0) {
+    photos.push(...unmatched.slice(0, options.count - photos.length));
+    constraintsRelaxed = true;
+  }
+
+  return {
+    photos,
+    total,
+    totalPages,
+    pagesScanned: page - 1,
+    matchedCount: matched.length,
+    constraintsRelaxed
+  };
+}
+
+/**
+ * Whether a query is about workspaces, offices or business environments
+ */
+export function isWorkspaceQuery(query: string): boolean {
+  const lowerQuery = query.toLowerCase();
+  return ['workspace', 'office', 'desk', 'business'].some(term => lowerQuery.includes(term));
+}
+
+/**
+ * Score photos for workspace relevance, dropping nature shots and sorting the rest
+ */
+export function rankByWorkspaceRelevance(photos: Photo[]): Photo[] {
+  // Look for workspace relevance signals in tags and descriptions
+  const officeKeywords = ['office', 'desk', 'workspace', 'work', 'business', 'computer', 'laptop', 'interior'];
+  const natureKeywords = ['mountain', 'nature', 'outdoor', 'landscape', 'tree', 'forest', 'lake'];
+
+  // Score each image for relevance
+  const scoredResults = photos.map(photo => {
+    let relevanceScore = 0;
+    const description = (photo.description || photo.alt_description || '').toLowerCase();
+
+    // Tags are only returned on photo details, so search results usually have none
+    const tags = photo.tags ?? [];
+
+    // Check description for relevant terms
+    officeKeywords.forEach(keyword => {
+      if (description.includes(keyword)) relevanceScore += 2;
+    });
+
+    // Penalize nature images for office queries
+    natureKeywords.forEach(keyword => {
+      if (description.includes(keyword)) relevanceScore -= 3;
+    });
+
+    // Check tags for relevant terms if they exist
+    tags.forEach(tag => {
+      const tagName = tag.title.toLowerCase();
+      if (officeKeywords.some(k => tagName.includes(k))) relevanceScore += 3;
+      if (natureKeywords.some(k => tagName.includes(k))) relevanceScore -= 4;
+    });
+
+    return { photo, relevanceScore };
+  });
+
+  // Sort by relevance score
+  scoredResults.sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+  // Only take positively scored items
+  return scoredResults
+    .filter(item => item.relevanceScore >= 0)
+    .map(item => item.photo);
+}
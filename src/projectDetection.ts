@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+
+export const FRAMEWORKS = [
+  'next',
+  'react',
+  'vue',
+  'angular',
+  'astro',
+  'sveltekit',
+  'nuxt',
+  'remix',
+  'gatsby',
+  'vite',
+  'hugo',
+  'generic'
+] as const;
+
+export type Framework = typeof FRAMEWORKS[number];
+
+export interface FrameworkProfile {
+  name: string;
+  // Where downloaded images go, relative to the project root
+  assetDir: string;
+  // Directory served as-is from the site root, if the framework has one
+  publicDir?: string;
+}
+
+export const FRAMEWORK_PROFILES: Record<Framework, FrameworkProfile> = {
+  next: { name: 'Next.js', assetDir: 'public/images', publicDir: 'public' },
+  react: { name: 'React', assetDir: 'src/assets/images' },
+  vue: { name: 'Vue', assetDir: 'src/assets/images' },
+  angular: { name: 'Angular', assetDir: 'src/assets/images', publicDir: 'src' },
+  // Images in src/assets are optimised by astro:assets
+  astro: { name: 'Astro', assetDir: 'src/assets/images' },
+  sveltekit: { name: 'SvelteKit', assetDir: 'static/images', publicDir: 'static' },
+  nuxt: { name: 'Nuxt', assetDir: 'public/images', publicDir: 'public' },
+  remix: { name: 'Remix', assetDir: 'public/images', publicDir: 'public' },
+  gatsby: { name: 'Gatsby', assetDir: 'static/images', publicDir: 'static' },
+  vite: { name: 'Vite', assetDir: 'public/images', publicDir: 'public' },
+  hugo: { name: 'Hugo', assetDir: 'static/images', publicDir: 'static' },
+  generic: { name: 'Generic', assetDir: 'assets/images' }
+};
+
+export interface DetectedProject {
+  framework: Framework;
+  root: string;
+  profile: FrameworkProfile;
+  // Files and dependencies the framework was inferred from
+  evidence: string[];
+}
+
+const CONFIG_EXTENSIONS = ['js', 'mjs', 'cjs', 'ts', 'mts'];
+
+/**
+ * Inspect a project's package.json and config files to work out its framework
+ * and where static images belong
+ */
+export function detectProject(root: string): DetectedProject {
+  const exists = (file: string) => fs.existsSync(path.join(root, file));
+  const findConfig = (base: string) => CONFIG_EXTENSIONS.map(ext => `${base}.${ext}`).find(exists);
+  const dependencies = readDependencies(root);
+  const hasDependency = (name: string) => dependencies.has(name);
+
+  const result = (framework: Framework, evidence: Array<string | undefined | false>, profile = FRAMEWORK_PROFILES[framework]) => ({
+    framework,
+    root,
+    profile,
+    evidence: evidence.filter((item): item is string => !!item)
+  });
+
+  // Most specific frameworks first: Nuxt, SvelteKit, Astro and Remix also use Vite, Gatsby and Next also use React
+  const hugoConfig = ['hugo.toml', 'hugo.yaml', 'hugo.json'].find(exists) ??
+    (['config.toml', 'config.yaml'].find(exists) && exists('archetypes') ? 'archetypes/' : undefined);
+  if (hugoConfig) {
+    return result('hugo', [hugoConfig]);
+  }
+
+  if (exists('angular.json') || hasDependency('@angular/core')) {
+    // Angular 17+ serves the public/ folder instead of src/assets
+    const usesPublic = exists('public') && !exists('src/assets');
+    const profile = usesPublic
+      ? { ...FRAMEWORK_PROFILES.angular, assetDir: 'public/images', publicDir: 'public' }
+      : FRAMEWORK_PROFILES.angular;
+    return result('angular', [exists('angular.json') && 'angular.json', hasDependency('@angular/core') && '@angular/core'], profile);
+  }
+
+  const nuxtConfig = findConfig('nuxt.config');
+  if (nuxtConfig || hasDependency('nuxt')) {
+    // Nuxt 2 serves static/, Nuxt 3 serves public/
+    const profile = exists('static') && !exists('public')
+      ? { ...FRAMEWORK_PROFILES.nuxt, assetDir: 'static/images', publicDir: 'static' }
+      : FRAMEWORK_PROFILES.nuxt;
+    return result('nuxt', [nuxtConfig, hasDependency('nuxt') && 'nuxt'], profile);
+  }
+
+  const svelteConfig = findConfig('svelte.config');
+  if (hasDependency('@sveltejs/kit')) {
+    return result('sveltekit', [svelteConfig, '@sveltejs/kit']);
+  }
+
+  const astroConfig = findConfig('astro.config');
+  if (astroConfig || hasDependency('astro')) {
+    return result('astro', [astroConfig, hasDependency('astro') && 'astro']);
+  }
+
+  const remixDependency = [...dependencies].find(name => name.startsWith('@remix-run/'));
+  const remixConfig = findConfig('remix.config');
+  if (remixConfig || remixDependency) {
+    return result('remix', [remixConfig, remixDependency]);
+  }
+
+  const gatsbyConfig = findConfig('gatsby-config');
+  if (gatsbyConfig || hasDependency('gatsby')) {
+    return result('gatsby', [gatsbyConfig, hasDependency('gatsby') && 'gatsby']);
+  }
+
+  const nextConfig = findConfig('next.config');
+  if (nextConfig || hasDependency('next')) {
+    return result('next', [nextConfig, hasDependency('next') && 'next']);
+  }
+
+  const viteConfig = findConfig('vite.config');
+  if (hasDependency('vue')) {
+    return result('vue', [viteConfig, 'vue']);
+  }
+
+  if (viteConfig || hasDependency('vite')) {
+    return result('vite', [viteConfig, hasDependency('vite') && 'vite']);
+  }
+
+  if (hasDependency('react')) {
+    return result('react', ['react']);
+  }
+
+  return result('generic', []);
+}
+
+/**
+ * URL an image in the project's asset directory is served from, or undefined when
+ * it has to be imported from source instead
+ */
+export function publicImageUrl(profile: FrameworkProfile, imagePath: string): string | undefined {
+  if (!profile.publicDir || !imagePath.startsWith(`${profile.publicDir}/`)) {
+    return undefined;
+  }
+  return imagePath.slice(profile.publicDir.length);
+}
+
+function readDependencies(root: string): Set<string> {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+    return new Set([
+      ...Object.keys(packageJson.dependencies ?? {}),
+      ...Object.keys(packageJson.devDependencies ?? {})
+    ]);
+  } catch {
+    // No package.json, e.g. a Hugo site
+    return new Set();
+  }
+}
@@ -0,0 +1,179 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export interface ResponseCacheOptions {
+  // Time to live for entries, in seconds
+  ttlSeconds: number;
+  // Maximum number of cached responses kept on disk
+  maxEntries: number;
+  // Maximum total size of the cache on disk, in bytes
+  maxBytes: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+  ttlSeconds: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  data: unknown;
+}
+
+/**
+ * Disk-backed cache for Unsplash API responses, one JSON file per request
+ */
+export class ResponseCache {
+  private cacheDir: string;
+  private options: ResponseCacheOptions;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(cacheDirectory: string, options: ResponseCacheOptions) {
+    this.cacheDir = cacheDirectory;
+    this.options = options;
+  }
+
+  /**
+   * Build a stable cache key from an endpoint and its query parameters
+   */
+  static createKey(endpoint: string, params: Record<string, string | number | undefined> = {}): string {
+    const query = Object.keys(params)
+      .filter(key => params[key] !== undefined)
+      .sort()
+      .map(key => `${key}=${params[key]}`)
+      .join('&');
+
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  private entryPath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+
+  /**
+   * Get a cached response, or undefined when missing or expired
+   */
+  public async get(key: string): Promise<unknown | undefined> {
+    const filePath = this.entryPath(key);
+
+    try {
+      const entry = await fs.readJson(filePath) as CacheEntry;
+
+      if (entry.key !== key || entry.expiresAt <= Date.now()) {
+        await fs.remove(filePath);
+        this.misses++;
+        return undefined;
+      }
+
+      // Touch the entry so eviction removes the least recently used responses first
+      const now = new Date();
+      await fs.utimes(filePath, now, now);
+
+      this.hits++;
+      return entry.data;
+    } catch {
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response and evict old entries beyond the configured limits
+   */
+  public async set(key: string, data: unknown): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      storedAt: now,
+      expiresAt: now + this.options.ttlSeconds * 1000,
+      data
+    };
+
+    try {
+      await fs.ensureDir(this.cacheDir);
+      await fs.writeJson(this.entryPath(key), entry);
+      await this.prune();
+    } catch (error) {
+      // Caching is an optimisation, so failures only get logged
+      console.error(`Error writing response cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Remove every cached response
+   */
+  public async clear(): Promise<number> {
+    const files = await this.listEntries();
+    await Promise.all(files.map(file => fs.remove(file.filePath)));
+    this.hits = 0;
+    this.misses = 0;
+    return files.length;
+  }
+
+  /**
+   * Get hit/miss counts for this process and the current size of the cache
+   */
+  public async getStats(): Promise<CacheStats> {
+    const files = await this.listEntries();
+    const lookups = this.hits + this.misses;
+
+    return {
+      directory: this.cacheDir,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      entries: files.length,
+      sizeBytes: files.reduce((total, file) => total + file.size, 0),
+      ttlSeconds: this.options.ttlSeconds,
+      maxEntries: this.options.maxEntries,
+      maxBytes: this.options.maxBytes
+    };
+  }
+
+  private async listEntries(): Promise<Array<{ filePath: string; size: number; mtimeMs: number }>> {
+    if (!(await fs.pathExists(this.cacheDir))) {
+      return [];
+    }
+
+    const names = (await fs.readdir(this.cacheDir)).filter(name => name.endsWith('.json'));
+    const entries = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.cacheDir, name);
+      try {
+        const stat = await fs.stat(filePath);
+        return { filePath, size: stat.size, mtimeMs: stat.mtimeMs };
+      } catch {
+        // Removed concurrently
+        return null;
+      }
+    }));
+
+    return entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+  }
+
+  private async prune(): Promise<void> {
+    const files = (await this.listEntries()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = files.reduce((total, file) => total + file.size, 0);
+    let count = files.length;
+
+    for (const file of files) {
+      if (count <= this.options.maxEntries && totalBytes <= this.options.maxBytes) {
+        break;
+      }
+      await fs.remove(file.filePath);
+      count--;
+      totalBytes -= file.size;
+    }
+  }
+}
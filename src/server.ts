@@ -2,20 +2,66 @@ import { FastMCP, UserError, type Context } from 'fastmcp';
 import { z } from 'zod';
 import path from 'path';
 import fs from 'fs';
-import os from 'os';
 import { config } from './config.js';
-import { UnsplashClient } from './unsplashClient.js';
-import { Photo } from './unsplashTypes.js';
-import { AttributionManager } from './attributionManager.js';
+import { UnsplashClient, applyImageOptions } from './unsplashClient.js';
+import {
+  Photo,
+  Collection,
+  Topic,
+  TopicOrderBySchema,
+  TopicPhotosOrderBySchema,
+  User,
+  UserPhotosOrderBySchema,
+  SearchOrientation,
+  SearchOrientationSchema,
+  SearchColorSchema,
+  ContentFilterSchema,
+  SearchOrderBySchema,
+  ImageFormatSchema
+} from './unsplashTypes.js';
+import { AttributionManager, PROJECT_DATABASE_PATH, findProjectDatabaseRoot } from './attributionManager.js';
 import { MetadataManager } from './metadataManager.js';
+import { ResponseCache } from './responseCache.js';
+import { downloadPhotos } from './photoDownloads.js';
+import { downloadFileNames } from './imageFile.js';
+import { FRAMEWORKS, FRAMEWORK_PROFILES, DetectedProject, Framework, detectProject, publicImageUrl } from './projectDetection.js';
+import {
+  COLLISION_POLICIES,
+  CollisionPolicy,
+  renderFilenameTemplate,
+  resolveFilenameCollision,
+  sanitizeFilename,
+  validateFilenameTemplate
+} from './filenameTemplate.js';
+import { trackToolCancellation, currentRequestSignal, currentRequestWantsProgress } from './cancellation.js';
+import { COMPONENT_FILE_NAMES, COMPONENT_FORMATS, COMPONENT_LABELS } from './attributionComponents.js';
+import { ATTRIBUTION_KEYS, EXPORT_FILE_NAMES, EXPORT_FORMATS, orderAttributions } from './attributionExports.js';
+import { HTML_THEMES, HtmlPageOptions, HtmlTheme } from './attributionHtml.js';
+import { reconcileAttributions } from './attributionReconciler.js';
+import { rebuildAttributions } from './attributionRebuilder.js';
+import { analyzeImageUsage } from './imageUsage.js';
+import { auditHotlinks } from './hotlinkAudit.js';
+import { Settings, expandHome, loadSettings, projectTemplateFor } from './settings.js';
+import {
+  searchWithConstraints,
+  collectWithConstraints,
+  isWorkspaceQuery,
+  isSponsored,
+  byLikes,
+  rankByWorkspaceRelevance
+} from './photoSearch.js';
+
+// Set up the persistent response cache for search and photo lookups
+const responseCache = config.cache.enabled
+  ? new ResponseCache(config.cache.dir, config.cache)
+  : undefined;
 
 // Create Unsplash client instance
-const unsplashClient = new UnsplashClient();
+const unsplashClient = new UnsplashClient({ cache: responseCache });
 
-// Set up attribution manager with a default path
-const defaultAttributionDir = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.unsplash-mcp');
-const attributionManager = new AttributionManager(defaultAttributionDir);
-const metadataManager = new MetadataManager();
+// Attribution databases by path, since projects can keep their own
+const attributionManagers = new Map<string, AttributionManager>();
+const metadataManager = new MetadataManager({ formats: config.settings.attributionSettings.metadataFormats });
 
 // Create FastMCP server instance
 const server = new FastMCP({
@@ -23,6 +69,9 @@ const server = new FastMCP({
   version: '1.0.0'
 });
 
+// Let tools stop work when the client cancels a request
+trackToolCancellation(server);
+
 // Define the stock_photo tool - combined search and download with smart features
 server.addTool({
   name: 'stock_photo',
@@ -31,23 +80,85 @@ server.addTool({
     query: z.string().optional().describe('What to search for (AI will choose if not specified)'),
     purpose: z.string().optional().describe('Where the image will be used (e.g., hero, background, profile)'),
     count: z.number().int().min(1).max(10).optional().default(1).describe('Number of options to download'),
-    orientation: z.enum(['any', 'landscape', 'portrait', 'square']).optional().default('any').describe('Preferred image orientation'),
+    orientation: z.enum(['any', 'landscape', 'portrait', 'squarish', 'square']).optional().default('any').describe('Preferred image orientation, filtered by the Unsplash API ("square" is an alias for "squarish")'),
+    color: SearchColorSchema.optional().describe('Filter results by dominant color'),
+    contentFilter: ContentFilterSchema.optional().describe('Content safety level: "low" (default on Unsplash) or "high" for stricter filtering'),
+    orderBy: SearchOrderBySchema.optional().describe('Sort results by relevance (default) or latest'),
+    collections: z.array(z.string()).optional().describe('Limit results to these Unsplash collection IDs'),
+    collectionId: z.string().optional().describe('Stay inside this curated Unsplash collection. With a query, searches within it; without one, browses its photos'),
     width: z.number().int().positive().optional().describe('Target width in pixels - images will be resized to this width'),
     height: z.number().int().positive().optional().describe('Target height in pixels - images will be resized to this height'),
+    format: ImageFormatSchema.optional().describe('Output image format (jpg, png, webp or avif). Defaults to what Unsplash serves, usually JPEG'),
+    quality: z.number().int().min(1).max(100).optional().describe('Output image quality from 1 to 100'),
     minWidth: z.number().int().positive().optional().describe('Minimum width for filtering results (separate from resizing)'),
     minHeight: z.number().int().positive().optional().describe('Minimum height for filtering results (separate from resizing)'),
-    outputDir: z.string().optional().describe('Directory to save photos (defaults to ~/Downloads/stock-photos)'),
-    projectType: z.enum(['next', 'react', 'vue', 'angular', 'generic']).optional().describe('Project type for automatic folder structure'),
+    outputDir: z.string().optional().describe('Directory to save photos (defaults to the configured download directory, ~/Downloads/stock-photos unless changed)'),
+    projectType: z.enum(['auto', ...FRAMEWORKS]).optional().describe('Project framework for folder structure and code examples. "auto" detects it from the project\'s package.json and config files'),
+    projectRoot: z.string().optional().describe('Project directory to inspect and save images into (defaults to the server\'s working directory). Setting it without projectType turns on detection'),
     category: z.string().optional().describe('Logical category to organize images (e.g., "heroes", "backgrounds", "profiles", "products")'),
-    downloadMode: z.enum(['auto', 'urls_only']).optional().default('urls_only').describe('Whether to download images (auto) or just return URLs (urls_only). RECOMMENDED: Use "urls_only" and follow the returned workflow instructions.')
+    filenameTemplate: z.string().optional().describe('Filename template using {query}, {purpose}, {id}, {photographer}, {width}, {height}, {index}, {date} and {ext}, e.g. "{purpose}_{photographer}_{width}x{height}.{ext}"'),
+    onCollision: z.enum(COLLISION_POLICIES as [CollisionPolicy, ...CollisionPolicy[]]).optional().describe('What to do when a filename is already taken: add a numeric suffix, overwrite, skip the photo, or fail. Defaults to the configured policy, "suffix" unless changed'),
+    concurrency: z.number().int().min(1).max(10).optional().describe('Number of photos to download at the same time in auto mode (defaults to the configured concurrency)'),
+    embedMetadata: z.boolean().optional().describe('Embed attribution metadata in downloaded images (defaults to the configured enableMetadata setting)'),
+    downloadMode: z.enum(['auto', 'urls_only']).optional().default('urls_only').describe('Whether to download images (auto) or just return URLs (urls_only). RECOMMENDED: Use "urls_only" and follow the returned workflow instructions.'),
+    maxPages: z.number().int().min(1).max(10).optional().describe('Maximum number of result pages to scan for photos that meet minWidth/minHeight (each page is one API request, defaults to the configured maxPages)'),
+    relaxConstraints: z.boolean().optional().default(false).describe('If not enough photos meet the constraints, fill up with photos that do not instead of returning fewer'),
+    excludeSponsored: z.boolean().optional().default(false).describe('Skip sponsored photos and Unsplash+ photos that need a paid license'),
+    preferLiked: z.boolean().optional().default(false).describe('Prefer the most liked photos among the scanned results instead of search relevance')
   }),
-  execute: async (args, { log }) => {
+  execute: async (args, { log, reportProgress }) => {
+    // Aborted when the client cancels this call
+    const signal = currentRequestSignal();
+
+    if (args.filenameTemplate) {
+      const templateError = validateFilenameTemplate(args.filenameTemplate);
+      if (templateError) {
+        throw new UserError(templateError);
+      }
+    }
+
+    // With a collection but no query, browse the curated collection instead of searching
+    const browseCollection = !!args.collectionId && !args.query;
+
+    if (browseCollection) {
+      try {
+        const collection = await unsplashClient.getCollection(args.collectionId as string, signal);
+        args.query = collection.title;
+        log.info(`No query provided. Browsing collection "${collection.title}" (${collection.total_photos} photos)`);
+      } catch (error) {
+        log.error(`Failed to load collection ${args.collectionId}: ${error instanceof Error ? error.message : String(error)}`);
+        throw new UserError(`Failed to load collection ${args.collectionId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     // Determine search query if not provided
     if (!args.query) {
       args.query = determineAppropriateSubject(args.purpose);
       log.info(`No query provided. AI determined subject: "${args.query}" based on purpose: ${args.purpose || 'general'}`);
     }
 
+    // Settings for the project being worked in; arguments given to this call take precedence
+    const projectRoot = args.projectRoot ? expandHome(args.projectRoot) : process.cwd();
+    let settings: Settings;
+    try {
+      settings = loadSettings(projectRoot);
+    } catch (error) {
+      log.error(`Failed to load settings: ${error instanceof Error ? error.message : String(error)}`);
+      throw new UserError(`Failed to load settings: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    args.filenameTemplate ??= settings.download.filenameTemplate;
+    args.onCollision ??= settings.download.onCollision;
+    args.concurrency ??= settings.download.concurrency;
+    args.maxPages ??= settings.search.maxPages;
+    args.embedMetadata ??= settings.attributionSettings.enableMetadata;
+
+    // Work out the project's framework and asset directory
+    const project = resolveProject(args, projectRoot, settings);
+    if (project) {
+      args.projectType = project.framework;
+      log.info(`Using ${project.profile.name} project in ${project.root}${project.evidence.length > 0 ? ` (detected from ${project.evidence.join(', ')})` : ''}`);
+    }
+
     // URLs-only mode doesn't need output directory setup
     let outputDir = "";
     let categoryDir = "";
@@ -56,7 +167,7 @@ server.addTool({
     // Only set up directories if we're actually downloading
     if (args.downloadMode !== 'urls_only') {
       // Determine the best output directory based on context and parameters
-      outputDir = determineOutputDirectory(args, log);
+      outputDir = determineOutputDirectory(args, settings, project);
       log.info(`Using output directory: ${outputDir}`);
       
       // Determine the category folder (if applicable)
@@ -74,116 +185,91 @@ server.addTool({
         throw new UserError(`Failed to create output directory: ${error instanceof Error ? error.message : String(error)}. Try specifying an explicit outputDir parameter where you have write permissions, or use downloadMode: 'urls_only' to get URLs without downloading.`);
       }
     }
+    
+    // Record downloads in the project's own database when there is one
+    const projectAttributions = attributionManagerFor(settings, categoryDir || undefined, project);
 
     // Improve search query construction to get more relevant results
     let searchQuery = args.query;
-    if (args.orientation && args.orientation !== 'any') {
-      // Don't add orientation to the query directly to avoid confusion
-      // Instead use it only for filtering later
-      log.info(`Will filter results for ${args.orientation} orientation`);
+
+    // Native Unsplash search filters, so the API does the filtering instead of us
+    const searchFilters = {
+      orientation: toSearchOrientation(args.orientation),
+      color: args.color,
+      contentFilter: args.contentFilter,
+      orderBy: args.orderBy,
+      // A collectionId keeps the search inside that curated collection
+      collections: args.collectionId ? [...(args.collections ?? []), args.collectionId] : args.collections
+    };
+    if (searchFilters.orientation) {
+      log.info(`Requesting ${searchFilters.orientation} orientation from Unsplash`);
     }
 
     // Check if the query is about workspaces, offices or business environments
     // and enhance it with more precise terms
-    if (searchQuery.toLowerCase().includes('workspace') || 
-        searchQuery.toLowerCase().includes('office') || 
-        searchQuery.toLowerCase().includes('desk') ||
-        searchQuery.toLowerCase().includes('business')) {
+    const workspaceQuery = !browseCollection && isWorkspaceQuery(searchQuery);
+    if (workspaceQuery) {
       // Add specific terms to improve relevance for office/workspace queries
       searchQuery = `${searchQuery} interior`;
       log.info(`Enhanced office/workspace query to: "${searchQuery}"`);
     }
 
-    log.info(`Searching Unsplash for "${searchQuery}" (${args.count} images)`);
+    // Describes where photos come from, for log and error messages
+    const sourceLabel = browseCollection ? `collection "${args.query}"` : `"${searchQuery}"`;
+    log.info(`${browseCollection ? 'Browsing' : 'Searching Unsplash for'} ${sourceLabel} (${args.count} images, up to ${args.maxPages} pages)`);
     
     try {
-      // Search for photos with more results to improve filtering
-      const results = await unsplashClient.searchPhotos(
-        searchQuery, 
-        1, 
-        Math.max(args.count * 10, 50) // Get more results for better filtering
-      );
-      
-      if (results.total === 0) {
-        throw new UserError(`No photos found matching "${searchQuery}"`);
-      }
+      // Page through results until enough photos meet the dimension constraints
+      const constraints = {
+        count: args.count,
+        maxPages: args.maxPages,
+        minWidth: args.minWidth,
+        minHeight: args.minHeight,
+        excludeSponsored: args.excludeSponsored,
+        relaxConstraints: args.relaxConstraints,
+        sort: args.preferLiked ? byLikes : undefined,
+        signal
+      };
+      const search = browseCollection
+        ? await collectWithConstraints(async (page, perPage) => ({
+            results: await unsplashClient.getCollectionPhotos(args.collectionId as string, {
+              page,
+              perPage,
+              orientation: searchFilters.orientation
+            }, signal)
+          }), constraints)
+        : await searchWithConstraints(unsplashClient, searchQuery, {
+            ...constraints,
+            filters: searchFilters,
+            // If doing a workspace/office query, apply additional content relevance filtering
+            refine: workspaceQuery ? rankByWorkspaceRelevance : undefined
+          });
       
-      log.info(`Found ${results.total} photos matching "${searchQuery}"`);
+      if (search.total === 0) {
+        throw new UserError(`No photos found matching ${sourceLabel}`);
+      }
       
-      // Filter results based on dimensions and orientation if specified
-      let filteredResults = results.results.filter(photo => {
-        // Check minimum dimensions if specified
-        if (args.minWidth && photo.width < args.minWidth) return false;
-        if (args.minHeight && photo.height < args.minHeight) return false;
-        
-        // Check orientation if specified
-        if (args.orientation && args.orientation !== 'any') {
-          const ratio = photo.width / photo.height;
-          if (args.orientation === 'landscape' && ratio <= 1) return false;
-          if (args.orientation === 'portrait' && ratio >= 1) return false;
-          if (args.orientation === 'square' && (ratio < 0.9 || ratio > 1.1)) return false;
-        }
-        
-        return true;
-      });
+      log.info(`Found ${search.total} photos in ${sourceLabel}; ${search.matchedCount} met the constraints across ${search.pagesScanned} page(s)`);
       
-      // If doing a workspace/office query, apply additional content relevance filtering
-      if (args.query.toLowerCase().includes('workspace') || 
-          args.query.toLowerCase().includes('office') || 
-          args.query.toLowerCase().includes('desk') ||
-          args.query.toLowerCase().includes('business')) {
-        
-        // Look for workspace relevance signals in tags and descriptions
-        const officeKeywords = ['office', 'desk', 'workspace', 'work', 'business', 'computer', 'laptop', 'interior'];
-        const natureKeywords = ['mountain', 'nature', 'outdoor', 'landscape', 'tree', 'forest', 'lake'];
-        
-        // Score each image for relevance
-        const scoredResults = filteredResults.map(photo => {
-          let relevanceScore = 0;
-          const description = (photo.description || photo.alt_description || '').toLowerCase();
-          
-          // Use type assertion for tags or create an empty array if not present
-          const tags: Array<{title?: string}> = (photo as any).tags || [];
-          
-          // Check description for relevant terms
-          officeKeywords.forEach(keyword => {
-            if (description.includes(keyword)) relevanceScore += 2;
-          });
-          
-          // Penalize nature images for office queries
-          natureKeywords.forEach(keyword => {
-            if (description.includes(keyword)) relevanceScore -= 3;
-          });
-          
-          // Check tags for relevant terms if they exist
-          tags.forEach((tag: {title?: string}) => {
-            const tagName = tag.title ? tag.title.toLowerCase() : '';
-            if (officeKeywords.some(k => tagName.includes(k))) relevanceScore += 3;
-            if (natureKeywords.some(k => tagName.includes(k))) relevanceScore -= 4;
-          });
-          
-          return { photo, relevanceScore };
-        });
-        
-        // Sort by relevance score
-        scoredResults.sort((a, b) => b.relevanceScore - a.relevanceScore);
-        
-        // Take the most relevant results
-        filteredResults = scoredResults
-          .filter(item => item.relevanceScore >= 0) // Only take positively scored items
-          .map(item => item.photo);
-        
-        log.info(`Applied workspace relevance filtering, found ${filteredResults.length} relevant images`);
+      if (search.photos.length === 0) {
+        throw new UserError(`No photos in ${sourceLabel} meet the requested constraints after scanning ${search.pagesScanned} page(s). Loosen minWidth/minHeight, raise maxPages, or set relaxConstraints: true.`);
       }
       
-      // If no photos match the criteria, fall back to the original results
-      if (filteredResults.length === 0) {
-        log.warn(`No photos match the specified criteria. Using unfiltered results.`);
-        filteredResults = results.results;
+      if (search.constraintsRelaxed) {
+        log.warn(`Only ${search.matchedCount} photos met the constraints. Filled up with ${search.photos.length - search.matchedCount} photos that do not.`);
       }
       
-      // Take only the requested number of photos
-      const selectedPhotos = filteredResults.slice(0, args.count);
+      // The search already returns at most the requested number of photos
+      const selectedPhotos = search.photos;
+      
+      // Summary of how the search was performed, included in every response
+      const searchSummary = {
+        filters: searchFilters,
+        total_results: search.total,
+        pages_scanned: search.pagesScanned,
+        matching_photos: search.matchedCount,
+        constraints_relaxed: search.constraintsRelaxed
+      };
       
       // Initialize array to track photo information
       const photoInfoList = [];
@@ -201,65 +287,81 @@ server.addTool({
           await fs.promises.mkdir(imagesDir, { recursive: true });
         }
         
-        // Download photos
-        for (let i = 0; i < selectedPhotos.length; i++) {
-          const photo = selectedPhotos[i];
-          
-          // Generate appropriate filename based on context
-          const fileName = generateFilename(photo, args, i);
-          
-          // Get the base URLs for download and preview
-          let downloadUrl = photo.urls.full;
-          let previewUrl = photo.urls.regular;
-          
-          // Apply dimensions by directly adding parameters to the URL
-          if (args.width || args.height) {
-            // Add width parameter if specified
-            if (args.width) {
-              downloadUrl += downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl += `w=${args.width}`;
-              
-              previewUrl += previewUrl.includes('?') ? '&' : '?';
-              previewUrl += `w=${args.width}`;
-            }
-            
-            // Add height parameter if specified
-            if (args.height) {
-              downloadUrl += downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl += `h=${args.height}`;
-              
-              previewUrl += previewUrl.includes('?') ? '&' : '?';
-              previewUrl += `h=${args.height}`;
-            }
-            
-            // Add fit parameter based on whether both dimensions are specified
-            if (args.width && args.height) {
-              downloadUrl += '&fit=crop';
-              previewUrl += '&fit=crop';
-            } else {
-              downloadUrl += '&fit=max';
-              previewUrl += '&fit=max';
+        if (args.width || args.height) {
+          log.info(`Applied resizing parameters: ${args.width ? `width=${args.width}` : ''}${args.height ? ` height=${args.height}` : ''}`);
+        }
+        
+        // Pick every filename up front, so collisions are handled before anything is downloaded
+        const reservedNames = new Set<string>();
+        let plannedPhotos;
+        try {
+          plannedPhotos = selectedPhotos.map((photo, index) => ({
+            photo,
+            index,
+            ...resolveFilenameCollision(
+              generateFilename(photo, args, index),
+              args.onCollision as CollisionPolicy,
+              // Taken in any image format, since the served format decides the extension
+              name => downloadFileNames(name).some(candidate => fs.existsSync(path.join(imagesDir, candidate))),
+              reservedNames
+            )
+          }));
+        } catch (error) {
+          throw new UserError(`${error instanceof Error ? error.message : String(error)} in ${imagesDir}. Use another filenameTemplate, or set onCollision to "suffix", "overwrite" or "skip".`);
+        }
+        
+        const skippedPhotos = plannedPhotos.filter(planned => planned.skipped).map(({ photo, fileName }) => ({
+          id: photo.id,
+          file_path: path.join(imagesDir, fileName),
+          reason: 'File already exists'
+        }));
+        const photosToDownload = plannedPhotos.filter(planned => !planned.skipped);
+        
+        plannedPhotos.filter(planned => planned.overwrites).forEach(planned => {
+          log.warn(`Overwriting existing file ${planned.fileName}`);
+        });
+        
+        // Apply dimensions and output format through the imgix URL parameters
+        const imageOptions = { width: args.width, height: args.height, format: args.format, quality: args.quality };
+        const total = photosToDownload.length;
+        
+        // Download photos in parallel, reporting progress as each one finishes
+        const { results, cancelled, removedFiles } = await downloadPhotos(photosToDownload, {
+          directory: imagesDir,
+          concurrency: args.concurrency as number,
+          attributions: projectAttributions,
+          signal,
+          reportProgress: currentRequestWantsProgress() ? reportProgress : undefined,
+          download: ({ photo, index: i, fileName, overwrites }) => {
+            log.info(`Downloading photo ${i + 1}/${total}: ${fileName}`);
+            return unsplashClient.downloadPhoto(photo, imagesDir, fileName, applyImageOptions(photo.urls.full, imageOptions), signal, { overwrite: overwrites });
+          },
+          // Add metadata to image if possible, and if enabled
+          embedMetadata: args.embedMetadata ? async (filePath, photo) => {
+            try {
+              await metadataManager.addAttributionMetadata(filePath, photo, signal, settings.attributionSettings.metadataFormats);
+              return true;
+            } catch (error) {
+              log.warn(`Could not add EXIF metadata: ${error instanceof Error ? error.message : String(error)}`);
+              return false;
             }
-            
-            log.info(`Applied resizing parameters: ${args.width ? `width=${args.width}` : ''}${args.height ? ` height=${args.height}` : ''}`);
+          } : undefined
+        });
+        
+        if (cancelled) {
+          log.warn(`Request cancelled. Removed ${removedFiles} downloaded photos and restored the files and attribution records they replaced.`);
+          throw new UserError('The stock photo request was cancelled');
+        }
+        
+        const downloadedPhotos = results.flatMap(result => {
+          if (result.status !== 'fulfilled') {
+            return [];
           }
-          
-          log.info(`Downloading photo ${i + 1}/${selectedPhotos.length}: ${fileName}`);
-          
-          // Pass the modified URL to the download function
-          let filePath = await unsplashClient.downloadPhoto(photo, imagesDir, fileName, downloadUrl);
-          
-          // Add to attribution database
-          attributionManager.addAttribution(photo, filePath);
-          
-          // Add metadata to image if possible
-          try {
-            await metadataManager.addAttributionMetadata(filePath, photo);
-          } catch (error) {
-            log.warn(`Could not add EXIF metadata: ${error instanceof Error ? error.message : String(error)}`);
+          const { planned: { photo }, filePath, metadataAdded, attributionError } = result.value;
+          if (attributionError) {
+            log.warn(`Downloaded ${filePath} but could not record its attribution: ${attributionError}`);
           }
-          
-          photoInfoList.push({
+          return [{
             id: photo.id,
             file_path: filePath,
             description: photo.description || photo.alt_description || 'No description',
@@ -270,12 +372,40 @@ server.addTool({
                                args.height ? `(auto)x${args.height}` : `Original (${photo.width}x${photo.height})`,
             orientation: photo.width > photo.height ? 'landscape' : (photo.width < photo.height ? 'portrait' : 'square'),
             attribution: `Photo by ${photo.user.name || photo.user.username} on Unsplash`,
-            url: previewUrl,
-            download_url: downloadUrl,
+            ...photoInsights(photo),
+            url: applyImageOptions(photo.urls.regular, imageOptions),
+            download_url: applyImageOptions(photo.urls.full, imageOptions),
             unsplash_url: photo.links.html,
-            attribution_saved: true,
-            metadata_added: true
-          });
+            attribution_saved: !attributionError,
+            attribution_error: attributionError,
+            metadata_added: metadataAdded
+          }];
+        });
+        const failedPhotos = results.flatMap((result, i) => result.status === 'rejected' ? [{
+          id: photosToDownload[i].photo.id,
+          photographer: photosToDownload[i].photo.user.name || photosToDownload[i].photo.user.username,
+          unsplash_url: photosToDownload[i].photo.links.html,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        }] : []);
+        
+        failedPhotos.forEach(failure => log.error(`Failed to download photo ${failure.id}: ${failure.error}`));
+        
+        if (downloadedPhotos.length === 0 && failedPhotos.length > 0) {
+          throw new Error(`All ${total} downloads failed: ${failedPhotos.map(f => f.error).join('; ')}`);
+        }
+        
+        // Keep the project's attribution page up to date when the settings ask for it
+        let attributionPage: string | undefined;
+        let attributionPageError: string | undefined;
+        if (project && downloadedPhotos.length > 0 && settings.attributionSettings.generateAttributionPage) {
+          try {
+            attributionPage = writeAttributionPage(projectAttributions, project, settings);
+            log.info(`Updated attribution page ${attributionPage}`);
+          } catch (error) {
+            // The photos are downloaded, so this does not fail the request
+            attributionPageError = error instanceof Error ? error.message : String(error);
+            log.warn(`Could not update the attribution page: ${attributionPageError}`);
+          }
         }
         
         // Return result for auto download mode
@@ -283,52 +413,34 @@ server.addTool({
           query: args.query,
           purpose: args.purpose,
           output_directory: imagesDir,
-          downloaded_photos: photoInfoList,
-          message: `Successfully downloaded ${photoInfoList.length} photos to ${imagesDir}. IMPORTANT: Please include attribution "${photoInfoList.map(p => p.attribution).join('" or "')}" when using these images.`
+          attribution_database: projectAttributions.databasePath,
+          search: searchSummary,
+          downloaded_photos: downloadedPhotos,
+          failed_photos: failedPhotos,
+          skipped_photos: skippedPhotos,
+          attribution_page: attributionPage,
+          attribution_page_error: attributionPageError,
+          message: `Successfully downloaded ${downloadedPhotos.length} of ${selectedPhotos.length} photos to ${imagesDir}.${failedPhotos.length > 0 ? ` ${failedPhotos.length} failed, see failed_photos.` : ''}${skippedPhotos.length > 0 ? ` ${skippedPhotos.length} skipped because the file already exists.` : ''}${downloadedPhotos.length > 0 ? ` IMPORTANT: Please include attribution "${downloadedPhotos.map(p => p.attribution).join('" or "')}" when using these images.` : ''}`
         }, null, 2);
       } 
       // If we're in URLs-only mode, just return the URLs and photo information
       else {
+        // The target directory is only a suggestion here, so names are only kept unique within this response
+        const reservedNames = new Set<string>();
+        
         // Process photos without downloading
         for (let i = 0; i < selectedPhotos.length; i++) {
           const photo = selectedPhotos[i];
           
-          // Generate appropriate filename based on context (for reference)
-          const fileName = generateFilename(photo, args, i);
+          // Generate the filename used in the curl command and code examples
+          const { fileName } = resolveFilenameCollision(generateFilename(photo, args, i), 'suffix', () => false, reservedNames);
           
-          // Get the base URLs for download and preview
-          let downloadUrl = photo.urls.full;
-          let previewUrl = photo.urls.regular;
+          // Apply dimensions and output format through the imgix URL parameters
+          const imageOptions = { width: args.width, height: args.height, format: args.format, quality: args.quality };
+          const downloadUrl = applyImageOptions(photo.urls.full, imageOptions);
+          const previewUrl = applyImageOptions(photo.urls.regular, imageOptions);
           
-          // Apply dimensions by directly adding parameters to the URL
           if (args.width || args.height) {
-            // Add width parameter if specified
-            if (args.width) {
-              downloadUrl += downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl += `w=${args.width}`;
-              
-              previewUrl += previewUrl.includes('?') ? '&' : '?';
-              previewUrl += `w=${args.width}`;
-            }
-            
-            // Add height parameter if specified
-            if (args.height) {
-              downloadUrl += downloadUrl.includes('?') ? '&' : '?';
-              downloadUrl += `h=${args.height}`;
-              
-              previewUrl += previewUrl.includes('?') ? '&' : '?';
-              previewUrl += `h=${args.height}`;
-            }
-            
-            // Add fit parameter based on whether both dimensions are specified
-            if (args.width && args.height) {
-              downloadUrl += '&fit=crop';
-              previewUrl += '&fit=crop';
-            } else {
-              downloadUrl += '&fit=max';
-              previewUrl += '&fit=max';
-            }
-            
             log.info(`Applied resizing parameters: ${args.width ? `width=${args.width}` : ''}${args.height ? ` height=${args.height}` : ''}`);
           }
           
@@ -343,6 +455,7 @@ server.addTool({
                                args.height ? `(auto)x${args.height}` : `Original (${photo.width}x${photo.height})`,
             orientation: photo.width > photo.height ? 'landscape' : (photo.width < photo.height ? 'portrait' : 'square'),
             attribution: `Photo by ${photo.user.name || photo.user.username} on Unsplash`,
+            ...photoInsights(photo),
             url: previewUrl,
             download_url: downloadUrl,
             unsplash_url: photo.links.html,
@@ -351,12 +464,12 @@ server.addTool({
         }
         
         // For URLs-only mode, provide path suggestions without actually creating directories
-        const suggestedPath = args.projectType ? 
-          getProjectSuggestedPath(args) : 
-          '~/Downloads/stock-photos';
+        const suggestedPath = project ? 
+          getProjectSuggestedPath(args, project) : 
+          args.outputDir ?? settings.download.defaultDir;
         
         // Generate directory creation commands for the agent
-        const mkdirCommands = generateDirectoryCreationCommands(args);
+        const mkdirCommands = generateDirectoryCreationCommands(args, settings, project);
         
         // Update the return value for URL-only mode to include teaching instructions
         return JSON.stringify({
@@ -364,6 +477,7 @@ server.addTool({
           purpose: args.purpose,
           mode: "urls_only",
           suggested_directory: suggestedPath,
+          search: searchSummary,
           directory_setup_commands: mkdirCommands,
           found_photos: photoInfoList,
           download_commands: photoInfoList.map(p => p.curl_command),
@@ -389,7 +503,7 @@ server.addTool({
                 step: 3,
                 title: "Use the downloaded images",
                 description: "Reference the images in your project",
-                code_examples: generateCodeExamples(args, photoInfoList)
+                code_examples: generateCodeExamples(args, photoInfoList, project)
               }
             ],
             best_practices: [
@@ -414,16 +528,30 @@ server.addTool({
   name: 'get_attributions',
   description: 'Retrieve attribution information for Unsplash photos used in the project',
   parameters: z.object({
-    format: z.enum(['json', 'html', 'react']).default('json').describe('Output format for attribution data'),
+    format: z.enum(['json', 'html', ...EXPORT_FORMATS, ...COMPONENT_FORMATS, 'component']).optional().describe('Output format for attribution data: JSON, an HTML page, Markdown, a plain-text CREDITS file, CSV, schema.org JSON-LD, or a React, Vue, Angular, Svelte or web component. "component" uses the configured componentOutput. Defaults to the configured attributionFile format, json unless changed'),
     projectPath: z.string().optional().describe('Filter attributions to a specific project path'),
-    outputPath: z.string().optional().describe('Where to save attribution files (HTML, React components)')
+    outputPath: z.string().optional().describe('Where to save attribution files (HTML pages, exports, components)'),
+    groupBy: z.enum(ATTRIBUTION_KEYS).optional().describe('Group Markdown and CREDITS output under a heading per file, photographer or download date'),
+    sortBy: z.enum(ATTRIBUTION_KEYS).optional().describe('Order attributions by file (default), photographer or download date'),
+    theme: z.enum(HTML_THEMES).optional().describe('HTML page theme: light (default), dark, or a compact grid with thumbnails'),
+    template: z.string().optional().describe('Path to a custom HTML template using {{variable}} and {{#attributions}}...{{/attributions}} placeholders; replaces the theme'),
+    pageSize: z.number().int().positive().optional().describe('Split the HTML page into pages of this many attributions'),
+    fragment: z.boolean().optional().describe('Write only the attribution section to embed in an existing page, instead of a full HTML document')
   }),
   execute: async (args, { log }) => {
     try {
-      // Get attributions
-      let attributions = args.projectPath 
-        ? attributionManager.getAttributionsForProject(args.projectPath)
-        : attributionManager.getAllAttributions();
+      // Settings of the project, or of the working directory
+      const projectPath = args.projectPath && expandHome(args.projectPath);
+      const settings = loadSettings(projectPath || process.cwd());
+      const manager = attributionManagerFor(settings, projectPath);
+      const requestedFormat = args.format ?? settings.defaultOutputFormats.attributionFile;
+      const format = requestedFormat === 'component' ? settings.defaultOutputFormats.componentOutput : requestedFormat;
+      
+      // Get attributions, in the requested order
+      const order = { groupBy: args.groupBy, sortBy: args.sortBy };
+      let attributions = orderAttributions(projectPath 
+        ? manager.getAttributionsForProject(projectPath)
+        : manager.getAllAttributions(), order);
         
       if (attributions.length === 0) {
         return JSON.stringify({
@@ -432,32 +560,63 @@ server.addTool({
         }, null, 2);
       }
       
-      // Default output paths
-      const outputPathBase = args.outputPath || (args.projectPath || defaultAttributionDir);
+      // Default output paths, using the framework's projectTemplates entry inside a project
+      const outputPathBase = args.outputPath || (projectPath || path.dirname(manager.databasePath));
+      const template = projectPath && !args.outputPath
+        ? projectTemplateFor(settings, detectProject(projectPath).framework)
+        : undefined;
       
       // Handle different formats
-      switch (args.format) {
+      switch (format) {
         case 'html': {
-          const htmlOutputPath = path.join(outputPathBase, 'unsplash-attributions.html');
-          attributionManager.saveAttributionHtml(htmlOutputPath, attributions);
+          const htmlOutputPath = template?.attributionPath
+            ? path.join(projectPath as string, template.attributionPath, 'unsplash-attributions.html')
+            : path.join(outputPathBase, 'unsplash-attributions.html');
+          const pages = manager.saveAttributionHtml(htmlOutputPath, attributions, htmlPageOptions(settings, args));
           
           return JSON.stringify({
             count: attributions.length,
             format: 'html',
             outputPath: htmlOutputPath,
-            message: `Generated HTML attribution file with ${attributions.length} entries at ${htmlOutputPath}`
+            pages: pages.length > 1 ? pages : undefined,
+            message: `Generated HTML attribution ${args.fragment ? 'fragment' : 'file'} with ${attributions.length} entries at ${htmlOutputPath}${pages.length > 1 ? ` (${pages.length} pages)` : ''}`
+          }, null, 2);
+        }
+        
+        case 'markdown':
+        case 'credits':
+        case 'csv':
+        case 'jsonld': {
+          const exportOutputPath = template?.attributionPath
+            ? path.join(projectPath as string, template.attributionPath, EXPORT_FILE_NAMES[format])
+            : path.join(outputPathBase, EXPORT_FILE_NAMES[format]);
+          manager.saveAttributionExport(format, exportOutputPath, attributions, order);
+          
+          return JSON.stringify({
+            count: attributions.length,
+            format,
+            outputPath: exportOutputPath,
+            message: `Generated ${format} attribution file with ${attributions.length} entries at ${exportOutputPath}`
           }, null, 2);
         }
         
-        case 'react': {
-          const reactOutputPath = path.join(outputPathBase, 'ImageAttribution.tsx');
-          attributionManager.generateReactComponent(reactOutputPath);
+        case 'react':
+        case 'vue':
+        case 'angular':
+        case 'svelte':
+        case 'web-component': {
+          // The project's componentPath is used when it is the same kind of file
+          const fileName = COMPONENT_FILE_NAMES[format];
+          const componentOutputPath = template?.componentPath && path.extname(template.componentPath) === path.extname(fileName)
+            ? path.join(projectPath as string, template.componentPath)
+            : path.join(outputPathBase, fileName);
+          manager.generateComponent(format, componentOutputPath, attributions);
           
           return JSON.stringify({
             count: attributions.length,
-            format: 'react',
-            outputPath: reactOutputPath,
-            message: `Generated React component with ${attributions.length} attributions at ${reactOutputPath}`
+            format,
+            outputPath: componentOutputPath,
+            message: `Generated ${COMPONENT_LABELS[format]} with ${attributions.length} attributions at ${componentOutputPath}. Pass photoId to credit one photo, or showAll for the full credits list`
           }, null, 2);
         }
         
@@ -476,22 +635,528 @@ server.addTool({
   }
 });
 
+// Add the attribution sync tool
+server.addTool({
+  name: 'sync_attributions',
+  description: "Merge attributions between the global database and a project's own .unsplash/attributions.json, which can be committed so teammates and CI get the project's credits",
+  parameters: z.object({
+    projectPath: z.string().describe('Root of the project'),
+    direction: z.enum(['pull', 'push', 'both']).optional().default('both').describe('"pull" copies global records for files in the project into the project database (creating it if needed), "push" copies project records into the global database')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const projectRoot = path.resolve(expandHome(args.projectPath));
+      const settings = loadSettings(projectRoot);
+      const globalAttributions = cachedAttributionManager(settings.attributionSettings.databasePath);
+      const projectAttributions = cachedAttributionManager(path.join(projectRoot, PROJECT_DATABASE_PATH));
+      
+      if (globalAttributions === projectAttributions) {
+        throw new Error(`The settings for ${projectRoot} already use ${projectAttributions.databasePath} as the attribution database`);
+      }
+      
+      const pulled = args.direction !== 'push'
+        ? await projectAttributions.mergeFrom(globalAttributions, globalAttributions.getAttributionsForProject(projectRoot))
+        : undefined;
+      const pushed = args.direction !== 'pull'
+        ? await globalAttributions.mergeFrom(projectAttributions)
+        : undefined;
+      
+      return JSON.stringify({
+        project_database: projectAttributions.databasePath,
+        global_database: globalAttributions.databasePath,
+        pulled,
+        pushed,
+        message: [
+          pulled && `Pulled ${pulled.added} new and ${pulled.updated} updated attributions into the project database.`,
+          pushed && `Pushed ${pushed.added} new and ${pushed.updated} updated attributions into the global database.`
+        ].filter(Boolean).join(' ')
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error syncing attributions:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to sync attributions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the attribution reconciliation tool
+server.addTool({
+  name: 'reconcile_attributions',
+  description: 'Check attribution records against the images in a project: update the paths of moved or renamed images (found by their embedded Unsplash metadata or content hash), and list missing images and Unsplash images without a record',
+  parameters: z.object({
+    projectPath: z.string().describe('Root of the project to scan'),
+    dryRun: z.boolean().optional().default(false).describe('Only report what would change, without updating the database')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const projectRoot = path.resolve(expandHome(args.projectPath));
+      const manager = attributionManagerFor(loadSettings(projectRoot), projectRoot);
+      const report = await reconcileAttributions(manager, metadataManager, projectRoot, { dryRun: args.dryRun });
+      
+      report.unreadable.forEach(failure => log.warn(`Could not read metadata from ${failure.file}: ${failure.error}`));
+      
+      return JSON.stringify({
+        ...report,
+        attribution_database: manager.databasePath,
+        message: `Scanned ${report.scanned} images: ${report.unchanged} in place, ${report.moved.length} moved${args.dryRun ? ' (not updated, dry run)' : ' and updated'}, ${report.missing.length} missing, ${report.untracked.length} untracked.` +
+          (report.missing.length > 0 ? ' Missing images may have been deleted; remove their records or restore the files.' : '') +
+          (report.untracked.length > 0 ? ' Untracked images have Unsplash metadata but no attribution record.' : '')
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error reconciling attributions:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to reconcile attributions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the attribution rebuild tool
+server.addTool({
+  name: 'rebuild_attributions',
+  description: "Recreate attribution records from the Unsplash metadata embedded in a project's images, for example on a fresh checkout or in CI without the attribution database",
+  parameters: z.object({
+    projectPath: z.string().describe('Root of the project to scan'),
+    lookupMissing: z.boolean().optional().default(false).describe('Fetch photographer details the metadata lacks from the Unsplash API (uses API requests)'),
+    overwrite: z.boolean().optional().default(false).describe('Replace records that already exist for a photo'),
+    dryRun: z.boolean().optional().default(false).describe('Only report what would be recorded, without updating the database')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const projectRoot = path.resolve(expandHome(args.projectPath));
+      const manager = attributionManagerFor(loadSettings(projectRoot), projectRoot, detectProject(projectRoot));
+      const report = await rebuildAttributions(manager, metadataManager, projectRoot, {
+        lookupPhoto: args.lookupMissing ? id => unsplashClient.getPhotoById(id) : undefined,
+        overwrite: args.overwrite,
+        dryRun: args.dryRun
+      });
+      
+      report.unreadable.forEach(failure => log.warn(`Could not read metadata from ${failure.file}: ${failure.error}`));
+      
+      return JSON.stringify({
+        ...report,
+        attribution_database: manager.databasePath,
+        message: `Scanned ${report.scanned} images: ${report.added.length} records added, ${report.replaced.length} replaced${args.dryRun ? ' (dry run, nothing saved)' : ''}, ${report.existing} already recorded, ${report.incomplete.length} incomplete.` +
+          (report.incomplete.length > 0 && !args.lookupMissing ? ' Set lookupMissing: true to fill in missing photographer details from Unsplash.' : '')
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error rebuilding attributions:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to rebuild attributions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the image usage tool
+server.addTool({
+  name: 'find_unused_images',
+  description: "Scan a project's source code (JS, TS, JSX, Vue, Svelte, HTML, CSS, Markdown) for references to attributed images: list downloaded images nothing refers to, and referenced images without an attribution record. Optionally delete the unused images and their records.",
+  parameters: z.object({
+    projectPath: z.string().describe('Root of the project to scan'),
+    removeUnused: z.boolean().optional().default(false).describe('Delete unused images and their attribution records. Paths built at runtime are not recognised, so review the report first')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const projectRoot = path.resolve(expandHome(args.projectPath));
+      const manager = attributionManagerFor(loadSettings(projectRoot), projectRoot);
+      const report = await analyzeImageUsage(manager, projectRoot, { removeUnused: args.removeUnused });
+      const unusedBytes = report.unused.reduce((total, image) => total + image.bytes, 0);
+      
+      return JSON.stringify({
+        ...report,
+        attribution_database: manager.databasePath,
+        message: `Searched ${report.sourceFiles} source files: ${report.used} of ${report.tracked} attributed images are used, ${report.unused.length} unused (${(unusedBytes / 1024).toFixed(1)} KB)${args.removeUnused ? ' and removed' : ''}, ${report.unattributed.length} referenced images without attribution.` +
+          (report.unused.length > 0 && !args.removeUnused ? ' Set removeUnused: true to delete the unused images and their records.' : '')
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error finding unused images:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to find unused images: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the hotlink audit tool
+server.addTool({
+  name: 'audit_hotlinks',
+  description: "Find images.unsplash.com image URLs and unsplash.com photo page URLs in a project's code and record attributions for the photos they show, with the file and line of each link, so get_attributions covers hotlinked images too",
+  parameters: z.object({
+    projectPath: z.string().describe('Root of the project to scan'),
+    lookup: z.boolean().optional().default(true).describe('Fetch photos missing from the attribution database from the Unsplash API (one request per photo)'),
+    dryRun: z.boolean().optional().default(false).describe('Only report what would be recorded, without updating the database')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const projectRoot = path.resolve(expandHome(args.projectPath));
+      const manager = attributionManagerFor(loadSettings(projectRoot), projectRoot, detectProject(projectRoot));
+      const report = await auditHotlinks(manager, projectRoot, {
+        lookupPhoto: args.lookup ? id => unsplashClient.getPhotoById(id) : undefined,
+        dryRun: args.dryRun
+      });
+      const added = report.photos.filter(photo => photo.added).length;
+      
+      return JSON.stringify({
+        ...report,
+        attribution_database: manager.databasePath,
+        message: `Found ${report.found} Unsplash URLs in ${report.sourceFiles} source files: ${report.photos.length} photos recorded (${added} new)${args.dryRun ? ' (dry run, nothing saved)' : ''}, ${report.unresolved.length} URLs unresolved.` +
+          (report.unresolved.length > 0 ? ' See each unresolved URL for why it could not be recorded.' : '') +
+          (report.stale.length > 0 ? ` ${report.stale.length} photos recorded for hotlinks are no longer linked; remove their records if they are no longer used.` : '')
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error auditing hotlinks:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to audit hotlinks: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the random photo tool
+server.addTool({
+  name: 'random_photo',
+  description: 'Get one or more random photos from Unsplash, optionally matching a query, orientation or collections. Returns URLs and attribution without downloading.',
+  parameters: z.object({
+    query: z.string().optional().describe('Limit the random selection to photos matching this query'),
+    orientation: SearchOrientationSchema.optional().describe('Preferred image orientation'),
+    collections: z.array(z.string()).optional().describe('Limit the random selection to these Unsplash collection IDs'),
+    contentFilter: ContentFilterSchema.optional().describe('Content safety level: "low" or "high"'),
+    count: z.number().int().min(1).max(30).optional().default(1).describe('Number of random photos to return')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      log.info(`Fetching ${args.count} random photo(s)${args.query ? ` for "${args.query}"` : ''}`);
+      const photos = await unsplashClient.getRandomPhotos(args);
+
+      return JSON.stringify({
+        query: args.query,
+        count: photos.length,
+        photos: photos.map(summarizePhoto),
+        message: `Found ${photos.length} random photo(s). IMPORTANT: Please include attribution "${photos.map(p => summarizePhoto(p).attribution).join('" or "')}" when using these images.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error fetching random photos:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to fetch random photos: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the single photo lookup tool
+server.addTool({
+  name: 'get_photo',
+  description: 'Get the full details of a single Unsplash photo by ID, including any attribution recorded when it was downloaded',
+  parameters: z.object({
+    id: z.string().min(1).describe('Unsplash photo ID (e.g. from a previous stock_photo result or attribution record)'),
+    projectPath: z.string().optional().describe('Project whose attribution database to look in before the global one (defaults to the server\'s working directory)')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const photo = await unsplashClient.getPhotoById(args.id);
+
+      // Downloads into a project are recorded in its own database, others in the global one
+      const directory = args.projectPath ? expandHome(args.projectPath) : process.cwd();
+      const settings = loadSettings(directory);
+      const attributionRecord = attributionManagerFor(settings, directory).getAttribution(photo.id)
+        ?? attributionManagerFor(settings).getAttribution(photo.id);
+
+      return JSON.stringify({
+        photo: {
+          ...summarizePhoto(photo),
+          created_at: photo.created_at,
+          color: photo.color,
+          blur_hash: photo.blur_hash,
+          exif: photo.exif ?? null,
+          location_details: photo.location ?? null,
+          urls: photo.urls
+        },
+        attribution_record: attributionRecord,
+        message: `Photo ${photo.id} by ${photo.user.name || photo.user.username} on Unsplash`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error fetching photo ${args.id}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to fetch photo ${args.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the photo statistics tool
+server.addTool({
+  name: 'photo_stats',
+  description: 'Get download and view statistics for an Unsplash photo, in total and per day',
+  parameters: z.object({
+    id: z.string().min(1).describe('Unsplash photo ID'),
+    days: z.number().int().min(1).max(30).optional().default(30).describe('Number of days of daily history to include')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const stats = await unsplashClient.getPhotoStatistics(args.id, args.days);
+
+      return JSON.stringify({
+        id: stats.id,
+        downloads: stats.downloads,
+        views: stats.views,
+        likes: stats.likes,
+        message: `Photo ${stats.id} has ${stats.downloads.total} downloads and ${stats.views.total} views (${stats.downloads.historical.change} downloads in the last ${args.days} days)`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error fetching statistics for photo ${args.id}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to fetch statistics for photo ${args.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the collection search tool
+server.addTool({
+  name: 'search_collections',
+  description: 'Search Unsplash collections (curated sets of photos) by keyword. Use the returned IDs with collection_photos or the collectionId option of stock_photo.',
+  parameters: z.object({
+    query: z.string().min(1).describe('What to search for'),
+    page: z.number().int().positive().optional().default(1).describe('Page of results'),
+    perPage: z.number().int().min(1).max(30).optional().default(10).describe('Collections per page')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const results = await unsplashClient.searchCollections(args.query, args.page, args.perPage);
+
+      return JSON.stringify({
+        query: args.query,
+        total: results.total,
+        total_pages: results.total_pages,
+        page: args.page,
+        collections: results.results.map(summarizeCollection),
+        message: `Found ${results.total} collections matching "${args.query}"`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error searching collections:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to search collections: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the collection photos tool
+server.addTool({
+  name: 'collection_photos',
+  description: 'List the photos in an Unsplash collection, with URLs and attribution',
+  parameters: z.object({
+    collectionId: z.string().min(1).describe('Unsplash collection ID'),
+    orientation: SearchOrientationSchema.optional().describe('Only return photos with this orientation'),
+    page: z.number().int().positive().optional().default(1).describe('Page of results'),
+    perPage: z.number().int().min(1).max(30).optional().default(10).describe('Photos per page')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const collection = await unsplashClient.getCollection(args.collectionId);
+      const photos = await unsplashClient.getCollectionPhotos(args.collectionId, args);
+
+      return JSON.stringify({
+        collection: summarizeCollection(collection),
+        page: args.page,
+        photos: photos.map(summarizePhoto),
+        message: `Listed ${photos.length} photos from collection "${collection.title}". IMPORTANT: Please include attribution for each photo you use.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error listing collection ${args.collectionId}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to list collection ${args.collectionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the topics tool
+server.addTool({
+  name: 'list_topics',
+  description: 'List Unsplash topics (editorial categories such as "Nature" or "Business & Work")',
+  parameters: z.object({
+    orderBy: TopicOrderBySchema.optional().describe('How to sort topics'),
+    page: z.number().int().positive().optional().default(1).describe('Page of results'),
+    perPage: z.number().int().min(1).max(30).optional().default(10).describe('Topics per page')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const topics = await unsplashClient.listTopics(args.page, args.perPage, args.orderBy);
+
+      return JSON.stringify({
+        page: args.page,
+        topics: topics.map(summarizeTopic),
+        message: `Listed ${topics.length} topics. Use a topic's slug with topic_photos to get its photos.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error listing topics:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to list topics: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the topic photos tool
+server.addTool({
+  name: 'topic_photos',
+  description: 'List the photos in an Unsplash topic, with URLs and attribution',
+  parameters: z.object({
+    topic: z.string().min(1).describe('Topic ID or slug (e.g. "nature")'),
+    orientation: SearchOrientationSchema.optional().describe('Only return photos with this orientation'),
+    orderBy: TopicPhotosOrderBySchema.optional().describe('How to sort photos'),
+    page: z.number().int().positive().optional().default(1).describe('Page of results'),
+    perPage: z.number().int().min(1).max(30).optional().default(10).describe('Photos per page')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      const photos = await unsplashClient.getTopicPhotos(args.topic, args);
+
+      return JSON.stringify({
+        topic: args.topic,
+        page: args.page,
+        photos: photos.map(summarizePhoto),
+        message: `Listed ${photos.length} photos from topic "${args.topic}". IMPORTANT: Please include attribution for each photo you use.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error listing topic ${args.topic}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to list topic ${args.topic}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the photographer profile tool
+server.addTool({
+  name: 'get_photographer',
+  description: 'Get an Unsplash photographer\'s public profile, e.g. to find more work from a photographer whose style fits the project',
+  parameters: z.object({
+    username: z.string().min(1).describe('Unsplash username, with or without "@", or a profile URL like https://unsplash.com/@username')
+  }),
+  execute: async (args, { log }) => {
+    const username = normalizeUsername(args.username);
+
+    try {
+      const user = await unsplashClient.getUser(username);
+
+      return JSON.stringify({
+        photographer: summarizePhotographer(user),
+        message: `${user.name || user.username} has ${user.total_photos ?? 'an unknown number of'} photos on Unsplash. Use photographer_photos to browse them.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error fetching photographer ${username}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to fetch photographer ${username}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the photographer photos tool
+server.addTool({
+  name: 'photographer_photos',
+  description: 'List photos by a single Unsplash photographer for visual consistency, with URLs and attribution',
+  parameters: z.object({
+    username: z.string().min(1).describe('Unsplash username, with or without "@", or a profile URL'),
+    orientation: SearchOrientationSchema.optional().describe('Only return photos with this orientation'),
+    orderBy: UserPhotosOrderBySchema.optional().describe('How to sort photos'),
+    page: z.number().int().positive().optional().default(1).describe('Page of results'),
+    perPage: z.number().int().min(1).max(30).optional().default(10).describe('Photos per page')
+  }),
+  execute: async (args, { log }) => {
+    const username = normalizeUsername(args.username);
+
+    try {
+      const user = await unsplashClient.getUser(username);
+      const photos = await unsplashClient.getUserPhotos(username, args);
+      // The profile total only tells us the page count when no orientation filter is applied
+      const totalPages = user.total_photos !== undefined && !args.orientation
+        ? Math.ceil(user.total_photos / args.perPage)
+        : null;
+
+      return JSON.stringify({
+        photographer: summarizePhotographer(user),
+        page: args.page,
+        total_pages: totalPages,
+        photos: photos.map(summarizePhoto),
+        message: `Listed ${photos.length} photos by ${user.name || user.username}. IMPORTANT: Please include attribution "Photo by ${user.name || user.username} on Unsplash" when using these images.`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error listing photos by ${username}:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to list photos by ${username}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the quota tool
+server.addTool({
+  name: 'unsplash_quota',
+  description: 'Report the remaining Unsplash API request quota and when it is expected to reset',
+  parameters: z.object({
+    refresh: z.boolean().optional().default(false).describe('Make a minimal API request to get up-to-date quota figures (uses one request)')
+  }),
+  execute: async (args, { log }) => {
+    try {
+      let status = unsplashClient.getRateLimitStatus();
+
+      if (args.refresh || status.remaining === null) {
+        log.info('Refreshing Unsplash API quota');
+        status = await unsplashClient.refreshRateLimit();
+      }
+
+      return JSON.stringify({
+        limit: status.limit,
+        remaining: status.remaining,
+        reset_at: status.resetAt,
+        last_updated: status.lastUpdated,
+        message: status.remaining === null
+          ? 'Unsplash did not report quota information'
+          : `${status.remaining} of ${status.limit} Unsplash API requests remaining this hour (expected reset around ${status.resetAt})`
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof UserError) {
+        throw error;
+      }
+      log.error(`Error fetching Unsplash quota:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to fetch Unsplash quota: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
+// Add the response cache tool
+server.addTool({
+  name: 'unsplash_cache',
+  description: 'Show hit/miss statistics for the Unsplash response cache, or clear it',
+  parameters: z.object({
+    action: z.enum(['stats', 'clear']).optional().default('stats').describe('Whether to report cache statistics or remove all cached responses')
+  }),
+  execute: async (args, { log }) => {
+    if (!responseCache) {
+      return JSON.stringify({
+        enabled: false,
+        message: 'The response cache is disabled (UNSPLASH_CACHE_TTL_SECONDS=0)'
+      }, null, 2);
+    }
+
+    try {
+      if (args.action === 'clear') {
+        const removed = await responseCache.clear();
+        log.info(`Cleared ${removed} cached responses`);
+
+        return JSON.stringify({
+          enabled: true,
+          removed,
+          message: `Removed ${removed} cached responses`
+        }, null, 2);
+      }
+
+      const stats = await responseCache.getStats();
+      return JSON.stringify({
+        enabled: true,
+        ...stats,
+        message: `${stats.entries} cached responses; ${stats.hits} hits and ${stats.misses} misses since the server started`
+      }, null, 2);
+    } catch (error) {
+      log.error(`Error accessing response cache:`, error instanceof Error ? error.message : String(error));
+      throw new UserError(`Failed to access response cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+});
+
 // Generate directory creation commands based on arguments
-function generateDirectoryCreationCommands(args: any): string[] {
+function generateDirectoryCreationCommands(args: any, settings: Settings, project?: DetectedProject): string[] {
   const commands = [];
   let basePath = '';
   
-  if (args.projectType) {
+  if (project) {
     // Get project-specific path
-    basePath = getProjectSuggestedPath(args);
+    basePath = getProjectSuggestedPath(args, project);
     commands.push(`mkdir -p ${basePath}`);
   } else if (args.outputDir) {
     // Use specified output directory
     basePath = args.outputDir;
     commands.push(`mkdir -p ${basePath}`);
   } else {
-    // Use default directory
-    basePath = '~/Downloads/stock-photos';
+    // Use the configured download directory
+    basePath = settings.download.defaultDir;
     commands.push(`mkdir -p ${basePath}`);
   }
   
@@ -511,79 +1176,226 @@ function generateDirectoryCreationCommands(args: any): string[] {
   return commands;
 }
 
-// Get suggested path for project types
-function getProjectSuggestedPath(args: any): string {
-  const projectTypePaths = {
-    next: 'public/images',
-    react: 'src/assets/images',
-    vue: 'src/assets/images',
-    angular: 'src/assets/images',
-    generic: 'assets/images'
+// Summarize a photo with its attribution details for tool responses
+function summarizePhoto(photo: Photo) {
+  const photographer = photo.user.name || photo.user.username;
+
+  return {
+    id: photo.id,
+    description: photo.description || photo.alt_description || 'No description',
+    photographer,
+    photographer_url: `https://unsplash.com/@${photo.user.username}`,
+    dimensions: `${photo.width}x${photo.height}`,
+    orientation: photo.width > photo.height ? 'landscape' : (photo.width < photo.height ? 'portrait' : 'square'),
+    attribution: `Photo by ${photographer} on Unsplash`,
+    ...photoInsights(photo),
+    url: photo.urls.regular,
+    download_url: photo.urls.full,
+    unsplash_url: photo.links.html
+  };
+}
+
+// Extra details that help choose between photos, when Unsplash returned them
+function photoInsights(photo: Photo) {
+  const camera = photo.exif?.name || [photo.exif?.make, photo.exif?.model].filter(Boolean).join(' ');
+  const location = photo.location?.name ||
+    [photo.location?.city, photo.location?.country].filter(Boolean).join(', ');
+
+  return {
+    likes: photo.likes ?? null,
+    downloads: photo.downloads ?? null,
+    tags: photo.tags?.map(tag => tag.title) ?? [],
+    location: location || null,
+    camera: camera || null,
+    topics: Object.keys(photo.topic_submissions ?? {}),
+    sponsored: isSponsored(photo)
+  };
+}
+
+// Summarize a collection for tool responses
+function summarizeCollection(collection: Collection) {
+  return {
+    id: collection.id,
+    title: collection.title,
+    description: collection.description ?? null,
+    total_photos: collection.total_photos,
+    curator: collection.user.name || collection.user.username,
+    cover_url: collection.cover_photo?.urls.small ?? null,
+    unsplash_url: collection.links.html
+  };
+}
+
+// Summarize a topic for tool responses
+function summarizeTopic(topic: Topic) {
+  return {
+    id: topic.id,
+    slug: topic.slug,
+    title: topic.title,
+    description: topic.description ?? null,
+    total_photos: topic.total_photos,
+    featured: topic.featured ?? false,
+    cover_url: topic.cover_photo?.urls.small ?? null,
+    unsplash_url: topic.links.html
+  };
+}
+
+// Summarize a photographer's profile for tool responses
+function summarizePhotographer(user: User) {
+  return {
+    username: user.username,
+    name: user.name || user.username,
+    bio: user.bio ?? null,
+    location: user.location ?? null,
+    portfolio_url: user.portfolio_url ?? null,
+    instagram_username: user.instagram_username ?? null,
+    twitter_username: user.twitter_username ?? null,
+    total_photos: user.total_photos ?? null,
+    total_collections: user.total_collections ?? null,
+    for_hire: user.for_hire ?? null,
+    profile_image: user.profile_image?.medium ?? null,
+    unsplash_url: user.links?.html ?? `https://unsplash.com/@${user.username}`
+  };
+}
+
+// Accept "@name", "name" or a profile URL like https://unsplash.com/@name
+function normalizeUsername(input: string): string {
+  const trimmed = input.trim();
+  const fromUrl = trimmed.match(/unsplash\.com\/@([^/?#]+)/i);
+  return (fromUrl ? fromUrl[1] : trimmed).replace(/^@/, '');
+}
+
+// Map stock_photo's orientation values to the Unsplash search API's
+function toSearchOrientation(orientation?: string): SearchOrientation | undefined {
+  switch (orientation) {
+    case 'landscape':
+    case 'portrait':
+    case 'squarish':
+      return orientation;
+    case 'square':
+      return 'squarish';
+    default:
+      return undefined;
+  }
+}
+
+// Framework profile for the requested project type, detecting it from the project when asked to.
+// An imagePath in the framework's projectTemplates entry replaces its asset directory.
+function resolveProject(args: any, root: string, settings: Settings): DetectedProject | undefined {
+  let project: DetectedProject | undefined;
+  if (args.projectType === 'auto' || (args.projectRoot && !args.projectType)) {
+    project = detectProject(root);
+  } else if (args.projectType) {
+    const framework = args.projectType as Framework;
+    project = { framework, root, profile: FRAMEWORK_PROFILES[framework], evidence: [] };
+  }
+
+  const imagePath = project && projectTemplateFor(settings, project.framework)?.imagePath;
+  return project && imagePath
+    ? { ...project, profile: { ...project.profile, assetDir: imagePath } }
+    : project;
+}
+
+// Attribution manager shared between calls: the project database found by walking up from
+// the directory, a new one in the project when projectDatabase is set, or the one the settings point at
+function attributionManagerFor(settings: Settings, directory?: string, project?: DetectedProject): AttributionManager {
+  const projectRoot = (directory && findProjectDatabaseRoot(directory))
+    || (project && settings.attributionSettings.projectDatabase ? project.root : undefined);
+  return cachedAttributionManager(projectRoot
+    ? path.join(projectRoot, PROJECT_DATABASE_PATH)
+    : settings.attributionSettings.databasePath);
+}
+
+// One attribution manager per database file, so calls don't overwrite each other's records
+function cachedAttributionManager(databasePath: string): AttributionManager {
+  const resolvedPath = path.resolve(databasePath);
+  let manager = attributionManagers.get(resolvedPath);
+  if (!manager) {
+    manager = new AttributionManager(resolvedPath);
+    attributionManagers.set(resolvedPath, manager);
+  }
+  return manager;
+}
+
+// Get suggested path for the project, relative unless an explicit project root was given
+function getProjectSuggestedPath(args: any, project: DetectedProject): string {
+  return args.projectRoot ? path.join(project.root, project.profile.assetDir) : project.profile.assetDir;
+}
+
+// Write a project's attribution page into its projectTemplates attributionPath, or the project root
+function writeAttributionPage(manager: AttributionManager, project: DetectedProject, settings: Settings): string {
+  const pageDir = path.join(project.root, projectTemplateFor(settings, project.framework)?.attributionPath ?? '');
+  const attributions = manager.getAttributionsForProject(project.root);
+
+  if (settings.attributionSettings.attributionPageTemplate === 'json') {
+    const pagePath = path.join(pageDir, 'unsplash-attributions.json');
+    fs.mkdirSync(pageDir, { recursive: true });
+    fs.writeFileSync(pagePath, JSON.stringify({ attributions }, null, 2));
+    return pagePath;
+  }
+
+  const pagePath = path.join(pageDir, 'unsplash-attributions.html');
+  manager.saveAttributionHtml(pagePath, attributions, htmlPageOptions(settings));
+  return pagePath;
+}
+
+// HTML page options from the settings, overridden by tool arguments
+function htmlPageOptions(
+  settings: Settings,
+  args: { theme?: HtmlTheme; template?: string; pageSize?: number; fragment?: boolean } = {}
+): HtmlPageOptions {
+  const page = settings.attributionSettings.htmlPage;
+  const templatePath = args.template ? expandHome(args.template) : page.templatePath;
+  return {
+    theme: args.theme ?? page.theme,
+    template: templatePath ? fs.readFileSync(templatePath, 'utf8') : undefined,
+    pageSize: args.pageSize ?? page.pageSize,
+    fragment: args.fragment ?? page.fragment
   };
-  
-  return projectTypePaths[args.projectType as keyof typeof projectTypePaths] || 'assets/images';
 }
 
 // Determine the best output directory based on context and parameters
-function determineOutputDirectory(args: any, log: any): string {
+function determineOutputDirectory(args: any, settings: Settings, project?: DetectedProject): string {
   // If explicit output directory is provided, use it
   if (args.outputDir) {
-    // Expand ~ to the home directory if present
-    if (args.outputDir.startsWith('~')) {
-      return path.join(os.homedir(), args.outputDir.substring(1));
-    }
-    return args.outputDir;
+    return expandHome(args.outputDir);
   }
   
-  // If project type is specified, use appropriate project structure
-  if (args.projectType) {
-    const cwd = process.cwd();
-    
-    switch (args.projectType) {
-      case 'next':
-        // Create in the public/images folder for Next.js
-        return path.join(cwd, 'public', 'images');
-        
-      case 'react':
-        // For React, typically in src/assets/images
-        return path.join(cwd, 'src', 'assets', 'images');
-        
-      case 'vue':
-        // For Vue, typically in public/assets/images or src/assets/images
-        return path.join(cwd, 'src', 'assets', 'images');
-        
-      case 'angular':
-        // For Angular, typically in src/assets/images
-        return path.join(cwd, 'src', 'assets', 'images');
-        
-      default:
-        // Generic project structure
-        return path.join(cwd, 'assets', 'images');
-    }
+  // If a project is known, use its static asset directory
+  if (project) {
+    return path.join(project.root, project.profile.assetDir);
   }
 
-  // Fallback to user's Downloads folder as default
-  return path.join(os.homedir(), 'Downloads', 'stock-photos');
+  // Fall back to the configured download directory, ~/Downloads/stock-photos by default
+  return settings.download.defaultDir;
 }
 
-// Generate appropriate filename based on context
-function generateFilename(photo: any, args: any, index: number): string {
-  // For project contexts, use more predictable filenames
-  if (args.projectType) {
-    const purpose = args.purpose ? sanitizeFilename(args.purpose) : 'image';
-    const basePrefix = args.query ? sanitizeFilename(args.query) : purpose;
-    
-    // If multiple images, add index
-    const suffix = args.count > 1 ? `_${index + 1}` : '';
-    
-    return `${basePrefix}${suffix}.jpg`;
-  }
-  
-  // For normal downloads, include the Unsplash ID for uniqueness
-  const suffix = args.count > 1 ? `_${index + 1}` : '';
-  const fileName = `${sanitizeFilename(args.query)}${suffix}_${photo.id}.jpg`;
-  
-  return fileName;
+// Default filename template, matching the fixed names used before templates existed
+function defaultFilenameTemplate(args: any): string {
+  const index = args.count > 1 ? '_{index}' : '';
+  // Project contexts get predictable names, normal downloads include the Unsplash ID
+  return args.projectType ? `{query}${index}.{ext}` : `{query}${index}_{id}.{ext}`;
+}
+
+// Generate a filename from the filename template
+function generateFilename(photo: Photo, args: any, index: number): string {
+  const template = args.filenameTemplate ?? defaultFilenameTemplate(args);
+
+  // {width}x{height} describe the file that will be saved, so follow any resizing
+  const width = args.width ?? (args.height ? Math.round(photo.width * args.height / photo.height) : photo.width);
+  const height = args.height ?? (args.width ? Math.round(photo.height * args.width / photo.width) : photo.height);
+
+  return renderFilenameTemplate(template, {
+    query: args.query,
+    purpose: args.purpose || 'image',
+    id: photo.id,
+    photographer: photo.user.name || photo.user.username,
+    width,
+    height,
+    index: index + 1,
+    date: new Date().toISOString().slice(0, 10),
+    // The download renames the file if the served format differs
+    ext: args.format ?? 'jpg'
+  });
 }
 
 // Determine if we should use more original filenames (mainly for project contexts)
@@ -638,44 +1450,39 @@ function determineAppropriateSubject(purpose?: string): string {
   return 'professional business image';
 }
 
-// Helper function to sanitize filenames
-function sanitizeFilename(filename: string): string {
-  return filename
-    .toLowerCase()
-    .replace(/[^a-z0-9]/gi, '_')
-    .replace(/_+/g, '_')
-    .substring(0, 50);
-}
-
 // Add a new helper function to generate code examples
-function generateCodeExamples(args: any, photos: any[]): any[] {
-  if (!args.projectType || photos.length === 0) return [];
+function generateCodeExamples(args: any, photos: any[], project?: DetectedProject): any[] {
+  if (!project || photos.length === 0) return [];
   
   const examples = [];
   const photo = photos[0]; // Use the first photo for examples
   const fileName = photo.suggested_filename;
-  let suggestedPath = getProjectSuggestedPath(args);
+  let assetDir = project.profile.assetDir;
   
   if (args.category) {
-    suggestedPath = `${suggestedPath}/${sanitizeFilename(args.category)}`;
+    assetDir = `${assetDir}/${sanitizeFilename(args.category)}`;
   }
   
-  const imagePath = `${suggestedPath}/${fileName}`;
+  const imagePath = `${assetDir}/${fileName}`;
+  // Where the framework serves the image from, for frameworks with a public folder
+  const imageUrl = publicImageUrl(project.profile, imagePath) ?? imagePath;
+  const alt = args.purpose || 'Image from Unsplash';
+  const credit = `Photo by ${photo.photographer} on Unsplash`;
   
-  switch (args.projectType) {
+  switch (project.framework) {
     case 'next':
       examples.push({
         language: "jsx",
         description: "Next.js Image component usage",
-        code: `import Image from 'next/image';\n\n<Image\n  src="/${imagePath.replace('public/', '')}"\n  alt="${args.purpose || 'Image from Unsplash'}" \n  width={800} \n  height={600} \n  // Photo by ${photo.photographer} on Unsplash\n/>`
+        code: `import Image from 'next/image';\n\n<Image\n  src="${imageUrl}"\n  alt="${alt}" \n  width={800} \n  height={600} \n  // ${credit}\n/>`
       });
       break;
       
     case 'react':
       examples.push({
         language: "jsx",
-        description: "React image usage",
-        code: `// Photo by ${photo.photographer} on Unsplash\n<img\n  src="${imagePath}"\n  alt="${args.purpose || 'Image from Unsplash'}"\n  className="your-image-class"\n/>`
+        description: "React image usage (import path relative to src/)",
+        code: `import photo from './${imagePath.replace(/^src\//, '')}';\n\n// ${credit}\n<img\n  src={photo}\n  alt="${alt}"\n  className="your-image-class"\n/>`
       });
       break;
       
@@ -683,15 +1490,71 @@ function generateCodeExamples(args: any, photos: any[]): any[] {
       examples.push({
         language: "vue",
         description: "Vue.js image usage",
-        code: `<!-- Photo by ${photo.photographer} on Unsplash -->\n<img\n  :src="require('@/${imagePath}')"\n  :alt="'${args.purpose || 'Image from Unsplash'}'"\n  class="your-image-class"\n/>`
+        code: `<script setup>\nimport photo from '@/${imagePath.replace(/^src\//, '')}';\n</script>\n\n<template>\n  <!-- ${credit} -->\n  <img :src="photo" alt="${alt}" class="your-image-class" />\n</template>`
       });
       break;
       
     case 'angular':
       examples.push({
         language: "html",
-        description: "Angular image usage",
-        code: `<!-- Photo by ${photo.photographer} on Unsplash -->\n<img\n  [src]="'${imagePath}'"\n  [alt]="'${args.purpose || 'Image from Unsplash'}'"\n  class="your-image-class"\n>`
+        description: "Angular image usage with NgOptimizedImage",
+        code: `<!-- ${credit} -->\n<img\n  ngSrc="${imageUrl}"\n  alt="${alt}"\n  width="800"\n  height="600"\n  class="your-image-class"\n>`
+      });
+      break;
+      
+    case 'astro':
+      examples.push({
+        language: "astro",
+        description: "Astro optimized image usage (import path relative to src/pages/)",
+        code: `---\nimport { Image } from 'astro:assets';\nimport photo from '../${imagePath.replace(/^src\//, '')}';\n---\n\n<!-- ${credit} -->\n<Image src={photo} alt="${alt}" />`
+      });
+      break;
+      
+    case 'sveltekit':
+      examples.push({
+        language: "svelte",
+        description: "SvelteKit static image usage",
+        code: `<!-- ${credit} -->\n<img src="${imageUrl}" alt="${alt}" class="your-image-class" />`
+      });
+      break;
+      
+    case 'nuxt':
+      examples.push({
+        language: "vue",
+        description: "Nuxt image usage (files in the public folder are served from the site root)",
+        code: `<template>\n  <!-- ${credit} -->\n  <img src="${imageUrl}" alt="${alt}" class="your-image-class" />\n</template>`
+      });
+      break;
+      
+    case 'remix':
+      examples.push({
+        language: "jsx",
+        description: "Remix image usage (files in public/ are served from the site root)",
+        code: `// ${credit}\n<img\n  src="${imageUrl}"\n  alt="${alt}"\n  className="your-image-class"\n/>`
+      });
+      break;
+      
+    case 'gatsby':
+      examples.push({
+        language: "jsx",
+        description: "Gatsby static folder image usage",
+        code: `import { withPrefix } from 'gatsby';\n\n// ${credit}\n<img src={withPrefix('${imageUrl}')} alt="${alt}" />`
+      });
+      break;
+      
+    case 'vite':
+      examples.push({
+        language: "html",
+        description: "Vite public folder image usage",
+        code: `<!-- ${credit} -->\n<img src="${imageUrl}" alt="${alt}">`
+      });
+      break;
+      
+    case 'hugo':
+      examples.push({
+        language: "go-html-template",
+        description: "Hugo template image usage",
+        code: `{{/* ${credit} */}}\n<img src="{{ "${imageUrl.replace(/^\//, '')}" | relURL }}" alt="${alt}">`
       });
       break;
       
@@ -699,14 +1562,26 @@ function generateCodeExamples(args: any, photos: any[]): any[] {
       examples.push({
         language: "html",
         description: "Basic HTML image usage",
-        code: `<!-- Photo by ${photo.photographer} on Unsplash -->\n<img src="${imagePath}" alt="${args.purpose || 'Image from Unsplash'}">`
+        code: `<!-- ${credit} -->\n<img src="${imagePath}" alt="${alt}">`
       });
   }
   
   return examples;
 }
 
-// Start the server with stdio transport
-server.start({
-  transportType: "stdio"
-});
\ No newline at end of file
+// Start the server over stdio, or over SSE when configured with MCP_TRANSPORT=sse
+if (config.settings.server.transport === 'sse') {
+  const { port, host } = config.settings.server;
+  // FastMCP 1.x has no host option and always listens on all interfaces
+  if (host !== 'localhost') {
+    console.warn(`HOST=${host} is not supported by the SSE transport; listening on all interfaces`);
+  }
+  server.start({
+    transportType: 'sse',
+    sse: { endpoint: '/sse', port }
+  });
+} else {
+  server.start({
+    transportType: "stdio"
+  });
+}
\ No newline at end of file
@@ -0,0 +1,289 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { COMPONENT_FORMATS } from './attributionComponents.js';
+import { EXPORT_FORMATS } from './attributionExports.js';
+import { HTML_THEMES } from './attributionHtml.js';
+import { COLLISION_POLICIES, CollisionPolicy, validateFilenameTemplate } from './filenameTemplate.js';
+
+export const METADATA_FORMATS = ['XMP', 'IPTC', 'EXIF'] as const;
+
+export type MetadataFormat = typeof METADATA_FORMATS[number];
+
+// Name of the per-project settings file, looked up in the project root
+export const PROJECT_SETTINGS_FILE = '.unsplashrc';
+
+const ProjectTemplateSchema = z.object({
+  // Where stock_photo saves images, replacing the framework's default asset directory
+  imagePath: z.string().optional(),
+  // Where get_attributions writes attribution pages
+  attributionPath: z.string().optional(),
+  // Where get_attributions writes the attribution component
+  componentPath: z.string().optional()
+});
+
+export const SettingsSchema = z.object({
+  attributionSettings: z.object({
+    // Attribution database file, or a directory to keep unsplash-attributions.json in
+    databasePath: z.string(),
+    // Start a database in .unsplash/attributions.json in projects that don't have one yet
+    projectDatabase: z.boolean(),
+    enableMetadata: z.boolean(),
+    metadataFormats: z.array(z.enum(METADATA_FORMATS)).min(1),
+    // Regenerate the project's attribution page after stock_photo downloads into a project
+    generateAttributionPage: z.boolean(),
+    attributionPageTemplate: z.enum(['html', 'json']),
+    // Look of HTML attribution pages
+    htmlPage: z.object({
+      theme: z.enum(HTML_THEMES),
+      // User template replacing the theme's markup
+      templatePath: z.string().optional(),
+      // Attributions per page, all on one page when unset
+      pageSize: z.number().int().positive().optional(),
+      // Write only the attribution section, to embed in an existing page
+      fragment: z.boolean()
+    })
+  }),
+  defaultOutputFormats: z.object({
+    // Default format for get_attributions
+    attributionFile: z.enum(['json', 'html', ...EXPORT_FORMATS, ...COMPONENT_FORMATS, 'component']),
+    // Component framework for get_attributions' "component" format
+    componentOutput: z.enum(COMPONENT_FORMATS)
+  }),
+  // Per-framework paths, keyed by framework ("nextjs" is accepted for "next")
+  projectTemplates: z.record(ProjectTemplateSchema),
+  download: z.object({
+    defaultDir: z.string(),
+    filenameTemplate: z.string().optional().refine(template => !template || !validateFilenameTemplate(template), {
+      message: 'Invalid filename template'
+    }),
+    onCollision: z.enum(COLLISION_POLICIES as [CollisionPolicy, ...CollisionPolicy[]]),
+    concurrency: z.number().int().min(1).max(10),
+    timeoutMs: z.number().int().positive()
+  }),
+  search: z.object({
+    maxPages: z.number().int().min(1).max(10)
+  }),
+  server: z.object({
+    transport: z.enum(['stdio', 'sse']),
+    port: z.number().int().min(1).max(65535),
+    host: z.string()
+  })
+});
+
+export type Settings = z.infer<typeof SettingsSchema>;
+
+export type ProjectTemplate = z.infer<typeof ProjectTemplateSchema>;
+
+// Settings files may set any subset of the settings
+const SettingsFileSchema = SettingsSchema.deepPartial();
+
+type PartialSettings = z.infer<typeof SettingsFileSchema>;
+
+export const DEFAULT_SETTINGS: Settings = {
+  attributionSettings: {
+    databasePath: '~/.unsplash-mcp/unsplash-attributions.json',
+    projectDatabase: false,
+    enableMetadata: true,
+    metadataFormats: [...METADATA_FORMATS],
+    generateAttributionPage: false,
+    attributionPageTemplate: 'html',
+    htmlPage: {
+      theme: 'light',
+      fragment: false
+    }
+  },
+  defaultOutputFormats: {
+    attributionFile: 'json',
+    componentOutput: 'react'
+  },
+  projectTemplates: {},
+  download: {
+    defaultDir: '~/Downloads/stock-photos',
+    onCollision: 'suffix',
+    concurrency: 3,
+    timeoutMs: 60000
+  },
+  search: {
+    maxPages: 3
+  },
+  server: {
+    transport: 'stdio',
+    port: 3000,
+    host: 'localhost'
+  }
+};
+
+// Unset and empty environment variables both leave the setting alone
+const envVar = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => value === '' ? undefined : value, schema.optional());
+
+// Environment variables that override settings files
+const envSchema = z.object({
+  ATTRIBUTION_DB_PATH: envVar(z.string()),
+  ENABLE_METADATA: envVar(z.enum(['true', 'false', '1', '0']).transform(value => value === 'true' || value === '1')),
+  METADATA_FORMATS: envVar(z.string().transform(value => value.split(',').map(format => format.trim().toUpperCase()))),
+  DEFAULT_DOWNLOAD_DIR: envVar(z.string()),
+  UNSPLASH_FILENAME_TEMPLATE: envVar(z.string()),
+  UNSPLASH_FILENAME_COLLISION: envVar(z.string()),
+  UNSPLASH_DOWNLOAD_CONCURRENCY: envVar(z.coerce.number()),
+  UNSPLASH_DOWNLOAD_TIMEOUT_MS: envVar(z.coerce.number()),
+  UNSPLASH_SEARCH_MAX_PAGES: envVar(z.coerce.number()),
+  MCP_TRANSPORT: envVar(z.string()),
+  PORT: envVar(z.coerce.number()),
+  HOST: envVar(z.string())
+});
+
+/**
+ * Home directory of the user running the server
+ */
+export function homeDirectory(): string {
+  return process.env.HOME || process.env.USERPROFILE || os.homedir();
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+export function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')
+    ? path.join(homeDirectory(), dir.substring(1))
+    : dir;
+}
+
+/**
+ * Path of the user-wide settings file
+ */
+export function userSettingsPath(): string {
+  return path.join(homeDirectory(), '.unsplash-mcp', 'config.json');
+}
+
+/**
+ * Resolve settings for a project by layering, from lowest to highest priority:
+ * built-in defaults, the user file, the project's .unsplashrc and environment variables.
+ * Tool arguments override the result in the tools themselves.
+ * Paths in a file are relative to the file; paths from the environment are relative to the working directory.
+ */
+export function loadSettings(projectRoot: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): Settings {
+  const layers = [
+    resolvePaths(DEFAULT_SETTINGS, process.cwd()),
+    readSettingsFile(userSettingsPath()),
+    readSettingsFile(path.join(projectRoot, PROJECT_SETTINGS_FILE)),
+    resolvePaths(envSettings(env), process.cwd())
+  ];
+
+  const merged = layers.reduce<Record<string, unknown>>((settings, layer) => mergeSettings(settings, layer ?? {}), {});
+  const parsed = SettingsSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(`Invalid settings: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Paths configured for a framework in projectTemplates
+ */
+export function projectTemplateFor(settings: Settings, framework: string): ProjectTemplate | undefined {
+  const templates = settings.projectTemplates;
+  return templates[framework] ?? (framework === 'next' ? templates.nextjs : undefined);
+}
+
+function readSettingsFile(filePath: string): PartialSettings | undefined {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = SettingsFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid settings in ${filePath}: ${formatIssues(parsed.error)}`);
+  }
+  return resolvePaths(parsed.data, path.dirname(filePath));
+}
+
+function envSettings(env: NodeJS.ProcessEnv): PartialSettings {
+  const parsed = envSchema.safeParse(env);
+  if (!parsed.success) {
+    throw new Error(`Invalid environment variables: ${formatIssues(parsed.error)}`);
+  }
+  const vars = parsed.data;
+
+  // Values are checked against SettingsSchema once all layers are merged
+  return {
+    attributionSettings: {
+      databasePath: vars.ATTRIBUTION_DB_PATH,
+      enableMetadata: vars.ENABLE_METADATA,
+      metadataFormats: vars.METADATA_FORMATS as MetadataFormat[] | undefined
+    },
+    download: {
+      defaultDir: vars.DEFAULT_DOWNLOAD_DIR,
+      filenameTemplate: vars.UNSPLASH_FILENAME_TEMPLATE,
+      onCollision: vars.UNSPLASH_FILENAME_COLLISION as CollisionPolicy | undefined,
+      concurrency: vars.UNSPLASH_DOWNLOAD_CONCURRENCY,
+      timeoutMs: vars.UNSPLASH_DOWNLOAD_TIMEOUT_MS
+    },
+    search: {
+      maxPages: vars.UNSPLASH_SEARCH_MAX_PAGES
+    },
+    server: {
+      transport: vars.MCP_TRANSPORT as Settings['server']['transport'] | undefined,
+      port: vars.PORT,
+      host: vars.HOST
+    }
+  };
+}
+
+// Make the layer's paths absolute, relative to where the layer was defined
+function resolvePaths(settings: PartialSettings, baseDir: string): PartialSettings {
+  const resolve = (value?: string) => value === undefined ? undefined : path.resolve(baseDir, expandHome(value));
+  return {
+    ...settings,
+    attributionSettings: settings.attributionSettings && {
+      ...settings.attributionSettings,
+      databasePath: resolve(settings.attributionSettings.databasePath),
+      htmlPage: settings.attributionSettings.htmlPage && {
+        ...settings.attributionSettings.htmlPage,
+        templatePath: resolve(settings.attributionSettings.htmlPage.templatePath)
+      }
+    },
+    download: settings.download && {
+      ...settings.download,
+      defaultDir: resolve(settings.download.defaultDir)
+    }
+  };
+}
+
+// Deep merge where objects are merged, other values replace and undefined leaves the lower layer alone
+function mergeSettings(base: Record<string, unknown>, layer: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = merged[key];
+    merged[key] = isPlainObject(value) && isPlainObject(current)
+      ? mergeSettings(current, value)
+      : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
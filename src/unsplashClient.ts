@@ -1,24 +1,257 @@
-import { createWriteStream } from 'fs';
-import { ensureDir } from 'fs-extra';
+import { open, stat } from 'fs/promises';
+import { ensureDir, move, pathExists, remove } from 'fs-extra';
 import path from 'path';
-import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { createHash } from 'crypto';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { UserError } from 'fastmcp';
 import { config } from './config.js';
+import { ResponseCache } from './responseCache.js';
+import { verifyImageFile, ImageVerificationError, IMAGE_EXTENSIONS, stripImageExtension } from './imageFile.js';
+import { anySignal } from './cancellation.js';
 import {
   Photo,
   PhotoSchema,
   SearchResults,
   SearchResultsSchema,
-  DownloadTrackingSchema
+  SearchPhotosOptions,
+  RandomPhotoOptions,
+  PhotoStatistics,
+  PhotoStatisticsSchema,
+  Collection,
+  CollectionSchema,
+  CollectionSearchResults,
+  CollectionSearchResultsSchema,
+  GroupPhotosOptions,
+  Topic,
+  TopicSchema,
+  TopicOrderBy,
+  TopicPhotosOrderBy,
+  User,
+  UserSchema,
+  UserPhotosOrderBy,
+  DownloadTrackingSchema,
+  ImageOptions
 } from './unsplashTypes.js';
 import { z } from 'zod';
 
-const API_BASE_URL = 'https://api.unsplash.com';
+// Unsplash rate limits are applied per rolling hour
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+// Hosts that serve Unsplash image bytes (rewritten when an image URL override is set)
+const UNSPLASH_IMAGE_HOSTS = ['images.unsplash.com', 'plus.unsplash.com'];
+
+// File extensions for the image types Unsplash can serve
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif'
+};
+
+/**
+ * Map a Content-Type header to a file extension, or undefined for non-image types
+ */
+export function extensionForContentType(contentType: string | null): string | undefined {
+  if (!contentType) {
+    return undefined;
+  }
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return CONTENT_TYPE_EXTENSIONS[mimeType];
+}
+
+/**
+ * Add imgix resizing and encoding parameters to an Unsplash image URL
+ */
+export function applyImageOptions(imageUrl: string, options: ImageOptions): string {
+  const url = new URL(imageUrl);
+
+  if (options.width) {
+    url.searchParams.set('w', String(options.width));
+  }
+  if (options.height) {
+    url.searchParams.set('h', String(options.height));
+  }
+  if (options.width || options.height) {
+    // Crop when both dimensions are fixed, otherwise keep the aspect ratio
+    url.searchParams.set('fit', options.width && options.height ? 'crop' : 'max');
+  }
+  if (options.format) {
+    url.searchParams.set('fm', options.format);
+  }
+  if (options.quality) {
+    url.searchParams.set('q', String(options.quality));
+  }
+
+  return url.toString();
+}
+
+export interface UnsplashClientOptions {
+  accessKey?: string;
+  apiUrl?: string;
+  imageUrl?: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  // Time limit for each image download attempt
+  downloadTimeoutMs?: number;
+  cache?: ResponseCache;
+}
+
+// Thrown for download failures that retrying cannot fix, such as a 404
+class PermanentDownloadError extends Error {}
+
+export interface RateLimitStatus {
+  limit: number | null;
+  remaining: number | null;
+  // Estimated, since Unsplash does not send a reset header
+  resetAt: string | null;
+  lastUpdated: string | null;
+}
 
 export class UnsplashClient {
   private accessKey: string;
+  private apiUrl: string;
+  private imageUrl?: string;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private downloadTimeoutMs: number;
+  private cache?: ResponseCache;
+  private rateLimit: { limit: number; remaining: number; windowStartedAt: number; updatedAt: number } | null = null;
+
+  constructor(options: UnsplashClientOptions = {}) {
+    this.accessKey = options.accessKey ?? config.unsplash.accessKey;
+    this.apiUrl = (options.apiUrl ?? config.unsplash.apiUrl).replace(/\/+$/, '');
+    this.imageUrl = (options.imageUrl ?? config.unsplash.imageUrl)?.replace(/\/+$/, '');
+    this.maxRetries = options.maxRetries ?? config.unsplash.maxRetries;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? config.unsplash.retryBaseDelayMs;
+    this.downloadTimeoutMs = options.downloadTimeoutMs ?? config.download.timeoutMs;
+    this.cache = options.cache;
+  }
+
+  /**
+   * Get the last known API quota
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    if (!this.rateLimit) {
+      return { limit: null, remaining: null, resetAt: null, lastUpdated: null };
+    }
+
+    return {
+      limit: this.rateLimit.limit,
+      remaining: this.rateLimit.remaining,
+      resetAt: new Date(this.rateLimit.windowStartedAt + RATE_LIMIT_WINDOW_MS).toISOString(),
+      lastUpdated: new Date(this.rateLimit.updatedAt).toISOString()
+    };
+  }
+
+  /**
+   * Make a minimal API request to refresh the quota from the response headers
+   */
+  async refreshRateLimit(): Promise<RateLimitStatus> {
+    await this.request('/photos', z.array(PhotoSchema), { per_page: 1 });
+    return this.getRateLimitStatus();
+  }
+
+  /**
+   * Record the X-Ratelimit-* headers of an API response
+   */
+  private updateRateLimit(headers: Headers): void {
+    const limit = Number(headers.get('x-ratelimit-limit'));
+    const remaining = Number(headers.get('x-ratelimit-remaining'));
+
+    if (!headers.has('x-ratelimit-remaining') || Number.isNaN(limit) || Number.isNaN(remaining)) {
+      return;
+    }
+
+    const now = Date.now();
+    const previous = this.rateLimit;
+
+    // A new window starts when the quota goes back up or the old window has elapsed
+    const newWindow = !previous ||
+      remaining > previous.remaining ||
+      now >= previous.windowStartedAt + RATE_LIMIT_WINDOW_MS;
+
+    this.rateLimit = {
+      limit,
+      remaining,
+      windowStartedAt: newWindow ? now : previous.windowStartedAt,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Fail without a network round trip when the quota is known to be exhausted
+   */
+  private assertQuotaAvailable(): void {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) {
+      return;
+    }
+
+    const resetAt = this.rateLimit.windowStartedAt + RATE_LIMIT_WINDOW_MS;
+    if (Date.now() < resetAt) {
+      throw new UserError(
+        `Unsplash API rate limit exhausted (${this.rateLimit.limit} requests per hour). ` +
+        `Quota is expected to reset around ${new Date(resetAt).toISOString()}.`
+      );
+    }
+  }
+
+  /**
+   * Fetch with retries on network errors and 5xx responses, using jittered exponential backoff
+   */
+  private async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(url, init);
+
+        if (response.status < 500 || attempt >= this.maxRetries) {
+          return response;
+        }
+
+        // Drain the body so the connection can be reused
+        await response.text().catch(() => undefined);
+        console.warn(`Unsplash API returned ${response.status}, retrying (${attempt + 1}/${this.maxRetries})`);
+      } catch (error) {
+        // Cancelled requests are never retried
+        if (attempt >= this.maxRetries || init.signal?.aborted) {
+          throw error;
+        }
+        console.warn(`Network error calling Unsplash API, retrying (${attempt + 1}/${this.maxRetries}):`, error);
+      }
+
+      await this.backoff(attempt, init.signal ?? undefined);
+    }
+  }
 
-  constructor() {
-    this.accessKey = config.unsplash.accessKey;
+  /**
+   * Wait before the next retry, stopping early if the signal aborts
+   */
+  private async backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+    // Full jitter: wait a random time up to the exponential backoff ceiling
+    const delay = Math.random() * this.retryBaseDelayMs * 2 ** attempt;
+    await sleep(delay, undefined, { signal });
+  }
+
+  /**
+   * Point an Unsplash image URL at the configured image host, if any
+   */
+  resolveImageUrl(imageUrl: string): string {
+    if (!this.imageUrl) {
+      return imageUrl;
+    }
+
+    const url = new URL(imageUrl);
+    if (!UNSPLASH_IMAGE_HOSTS.includes(url.hostname)) {
+      return imageUrl;
+    }
+
+    const override = new URL(this.imageUrl);
+    url.protocol = override.protocol;
+    url.host = override.host;
+    url.pathname = `${override.pathname.replace(/\/+$/, '')}${url.pathname}`;
+    return url.toString();
   }
 
   /**
@@ -28,9 +261,10 @@ export class UnsplashClient {
     endpoint: string,
     schema: z.ZodType<T>,
     params?: Record<string, string | number | undefined>,
-    method: 'GET' | 'POST' = 'GET'
+    method: 'GET' | 'POST' = 'GET',
+    signal?: AbortSignal
   ): Promise<T> {
-    const url = new URL(`${API_BASE_URL}${endpoint}`);
+    const url = new URL(`${this.apiUrl}${endpoint}`);
     
     // Add query parameters
     if (params && method === 'GET') {
@@ -47,14 +281,28 @@ export class UnsplashClient {
       'Content-Type': 'application/json'
     };
 
+    this.assertQuotaAvailable();
+
     try {
-      const response = await fetch(url.toString(), {
+      const response = await this.fetchWithRetry(url.toString(), {
         method,
-        headers
+        headers,
+        signal
       });
 
+      this.updateRateLimit(response.headers);
+
       if (!response.ok) {
         const errorText = await response.text();
+
+        if (response.status === 403 && (this.rateLimit?.remaining === 0 || /rate limit/i.test(errorText))) {
+          const { resetAt } = this.getRateLimitStatus();
+          throw new UserError(
+            `Unsplash API rate limit exceeded.${resetAt ? ` Quota is expected to reset around ${resetAt}.` : ''} ` +
+            'Try again later or use a production API key with a higher limit.'
+          );
+        }
+
         throw new Error(`Unsplash API error (${response.status}): ${errorText}`);
       }
 
@@ -83,10 +331,87 @@ export class UnsplashClient {
   }
 
   /**
-   * Search photos by query
+   * Make a GET request, serving it from the response cache when possible
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    schema: z.ZodType<T>,
+    params?: Record<string, string | number | undefined>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (!this.cache) {
+      return this.request(endpoint, schema, params, 'GET', signal);
+    }
+
+    // Include the API base URL so responses from different servers never mix
+    const key = ResponseCache.createKey(`${this.apiUrl}${endpoint}`, params);
+    const cached = await this.cache.get(key);
+
+    if (cached !== undefined) {
+      const validation = schema.safeParse(cached);
+      if (validation.success) {
+        return validation.data;
+      }
+    }
+
+    const data = await this.request(endpoint, schema, params, 'GET', signal);
+    await this.cache.set(key, data);
+    return data;
+  }
+
+  /**
+   * Search photos by query, using the API's native filters
+   */
+  async searchPhotos(query: string, options: SearchPhotosOptions = {}, signal?: AbortSignal): Promise<SearchResults> {
+    return this.cachedRequest('/search/photos', SearchResultsSchema, {
+      query,
+      page: options.page ?? 1,
+      per_page: options.perPage ?? 10,
+      orientation: options.orientation,
+      color: options.color,
+      content_filter: options.contentFilter,
+      order_by: options.orderBy,
+      collections: options.collections?.length ? options.collections.join(',') : undefined
+    }, signal);
+  }
+
+  /**
+   * Get a photo by ID
+   */
+  async getPhotoById(id: string): Promise<Photo> {
+    return this.cachedRequest(`/photos/${encodeURIComponent(id)}`, PhotoSchema);
+  }
+
+  /**
+   * Get random photos, optionally limited to a query or collections.
+   * Never cached, since every call should return new photos.
+   */
+  async getRandomPhotos(options: RandomPhotoOptions = {}): Promise<Photo[]> {
+    // With count set the API always returns an array, even for a single photo
+    return this.request('/photos/random', z.array(PhotoSchema), {
+      query: options.query,
+      orientation: options.orientation,
+      collections: options.collections?.length ? options.collections.join(',') : undefined,
+      content_filter: options.contentFilter,
+      count: options.count ?? 1
+    });
+  }
+
+  /**
+   * Get download and view statistics for a photo
    */
-  async searchPhotos(query: string, page: number = 1, perPage: number = 10): Promise<SearchResults> {
-    return this.request('/search/photos', SearchResultsSchema, {
+  async getPhotoStatistics(id: string, quantity: number = 30): Promise<PhotoStatistics> {
+    return this.cachedRequest(`/photos/${encodeURIComponent(id)}/statistics`, PhotoStatisticsSchema, {
+      resolution: 'days',
+      quantity
+    });
+  }
+
+  /**
+   * Search collections by query
+   */
+  async searchCollections(query: string, page: number = 1, perPage: number = 10): Promise<CollectionSearchResults> {
+    return this.cachedRequest('/search/collections', CollectionSearchResultsSchema, {
       query,
       page,
       per_page: perPage
@@ -94,18 +419,77 @@ export class UnsplashClient {
   }
 
   /**
-   * Get a photo by ID
+   * Get a collection by ID
    */
-  async getPhotoById(id: string): Promise<Photo> {
-    return this.request(`/photos/${id}`, PhotoSchema);
+  async getCollection(id: string, signal?: AbortSignal): Promise<Collection> {
+    return this.cachedRequest(`/collections/${encodeURIComponent(id)}`, CollectionSchema, undefined, signal);
+  }
+
+  /**
+   * List the photos in a collection
+   */
+  async getCollectionPhotos(id: string, options: GroupPhotosOptions = {}, signal?: AbortSignal): Promise<Photo[]> {
+    return this.cachedRequest(`/collections/${encodeURIComponent(id)}/photos`, z.array(PhotoSchema), {
+      page: options.page ?? 1,
+      per_page: options.perPage ?? 10,
+      orientation: options.orientation
+    }, signal);
+  }
+
+  /**
+   * List topics
+   */
+  async listTopics(page: number = 1, perPage: number = 10, orderBy?: TopicOrderBy): Promise<Topic[]> {
+    return this.cachedRequest('/topics', z.array(TopicSchema), {
+      page,
+      per_page: perPage,
+      order_by: orderBy
+    });
+  }
+
+  /**
+   * List the photos in a topic, by topic ID or slug
+   */
+  async getTopicPhotos(
+    idOrSlug: string,
+    options: GroupPhotosOptions & { orderBy?: TopicPhotosOrderBy } = {}
+  ): Promise<Photo[]> {
+    return this.cachedRequest(`/topics/${encodeURIComponent(idOrSlug)}/photos`, z.array(PhotoSchema), {
+      page: options.page ?? 1,
+      per_page: options.perPage ?? 10,
+      orientation: options.orientation,
+      order_by: options.orderBy
+    });
+  }
+
+  /**
+   * Get a photographer's public profile
+   */
+  async getUser(username: string): Promise<User> {
+    return this.cachedRequest(`/users/${encodeURIComponent(username)}`, UserSchema);
+  }
+
+  /**
+   * List the photos uploaded by a photographer
+   */
+  async getUserPhotos(
+    username: string,
+    options: GroupPhotosOptions & { orderBy?: UserPhotosOrderBy } = {}
+  ): Promise<Photo[]> {
+    return this.cachedRequest(`/users/${encodeURIComponent(username)}/photos`, z.array(PhotoSchema), {
+      page: options.page ?? 1,
+      per_page: options.perPage ?? 10,
+      orientation: options.orientation,
+      order_by: options.orderBy
+    });
   }
 
   /**
    * Track a photo download (required by Unsplash API terms)
    */
-  async trackDownload(photoId: string): Promise<{ success: boolean }> {
+  async trackDownload(photoId: string, signal?: AbortSignal): Promise<{ success: boolean }> {
     try {
-      await this.request(`/photos/${photoId}/download`, DownloadTrackingSchema);
+      await this.request(`/photos/${encodeURIComponent(photoId)}/download`, DownloadTrackingSchema, undefined, 'GET', signal);
       return { success: true };
     } catch (error) {
       console.error(`Failed to track download for photo ${photoId}:`, error);
@@ -114,73 +498,152 @@ export class UnsplashClient {
   }
 
   /**
-   * Download a photo to a local file
+   * Download a photo to a local file, named with the extension of the format actually served.
+   * The image is written to a temporary file, verified, then renamed into place. An existing
+   * file of that name is only replaced with `overwrite`, otherwise the download fails.
+   * Aborting the signal stops the download and removes the partial file.
    */
-  async downloadPhoto(photo: Photo, downloadDir: string, customFilename?: string, customUrl?: string): Promise<string> {
+  async downloadPhoto(
+    photo: Photo,
+    downloadDir: string,
+    customFilename?: string,
+    customUrl?: string,
+    signal?: AbortSignal,
+    { overwrite = false }: { overwrite?: boolean } = {}
+  ): Promise<string> {
     // Ensure the download directory exists
     await ensureDir(downloadDir);
 
     // Track the download first (required by Unsplash API terms)
-    await this.trackDownload(photo.id);
+    await this.trackDownload(photo.id, signal);
+
+    // Any extension on the requested name is replaced with the one matching the served format
+    const requestedName = customFilename || `unsplash-${photo.id}`;
+    const filenameBase = stripImageExtension(requestedName);
+    const requestedExtension = IMAGE_EXTENSIONS.find(ext => requestedName.toLowerCase().endsWith(`.${ext}`));
+
+    // Use the custom URL if provided, otherwise fall back to the default URL
+    const downloadUrl = this.resolveImageUrl(customUrl || photo.urls.full);
+
+    // Keyed by URL so a partial file is only ever resumed against the same image
+    const urlHash = createHash('sha256').update(downloadUrl).digest('hex').slice(0, 12);
+    const tempPath = path.join(downloadDir, `.${filenameBase}.${urlHash}.part`);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const contentType = await this.downloadToFile(downloadUrl, tempPath, signal);
+        const format = await verifyImageFile(tempPath);
+
+        const extension = extensionForContentType(contentType) ?? format ?? requestedExtension ?? 'jpg';
+        const filePath = path.join(downloadDir, `${filenameBase}.${extension}`);
+        if (!overwrite && await pathExists(filePath)) {
+          throw new PermanentDownloadError(`File "${path.basename(filePath)}" already exists`);
+        }
+        await move(tempPath, filePath, { overwrite });
+        return filePath;
+      } catch (error) {
+        if (signal?.aborted) {
+          // A cancelled download will not be resumed
+          await remove(tempPath);
+          throw error;
+        }
+        if (error instanceof ImageVerificationError) {
+          // A complete but corrupt file cannot be resumed, so start over
+          await remove(tempPath);
+        }
+        if (error instanceof PermanentDownloadError || attempt >= this.maxRetries) {
+          console.error(`Error downloading photo ${photo.id}:`, error);
+          if (error instanceof PermanentDownloadError) {
+            await remove(tempPath);
+          }
+          throw error;
+        }
+        console.warn(`Download of photo ${photo.id} failed, retrying (${attempt + 1}/${this.maxRetries}):`, error);
+      }
 
-    // Prepare the file path - using the photo ID to ensure uniqueness
-    const filenameBase = customFilename || `unsplash-${photo.id}`;
-    const filename = `${filenameBase}.jpg`;
-    const filePath = path.join(downloadDir, filename);
+      try {
+        await this.backoff(attempt, signal);
+      } catch (error) {
+        await remove(tempPath);
+        throw error;
+      }
+    }
+  }
 
+  /**
+   * Fetch an image into a temporary file, resuming with an HTTP Range request
+   * when a partial file already exists. Returns the response Content-Type.
+   */
+  private async downloadToFile(url: string, tempPath: string, signal?: AbortSignal): Promise<string | null> {
+    const existingBytes = (await pathExists(tempPath)) ? (await stat(tempPath)).size : 0;
+    const headers: Record<string, string> = {};
+    if (existingBytes > 0) {
+      headers.Range = `bytes=${existingBytes}-`;
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: anySignal(signal, AbortSignal.timeout(this.downloadTimeoutMs))
+    });
+
+    // The partial file already holds the whole image; verification decides if it is usable
+    if (response.status === 416 && existingBytes > 0) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      const message = `Failed to download image: ${response.status} ${response.statusText}`;
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(message);
+      }
+      throw new PermanentDownloadError(message);
+    }
+
+    if (!response.body) {
+      throw new Error('Failed to download image: empty response body');
+    }
+
+    // Servers that ignore Range send the whole image again with a 200
+    const resumed = response.status === 206;
+    let expectedSize: number | undefined;
+
+    if (resumed) {
+      const range = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers.get('content-range') ?? '');
+      if (!range || Number(range[1]) !== existingBytes) {
+        await response.body.cancel();
+        await remove(tempPath);
+        throw new Error('Failed to resume download: unexpected Content-Range');
+      }
+      if (range[2] !== '*') {
+        expectedSize = Number(range[2]);
+      }
+    }
+
+    const contentLength = response.headers.get('content-length');
+    if (expectedSize === undefined && contentLength !== null) {
+      expectedSize = (resumed ? existingBytes : 0) + Number(contentLength);
+    }
+
+    // Write chunk by chunk so everything received before a dropped connection stays on disk
+    const file = await open(tempPath, resumed ? 'a' : 'w');
     try {
-      // Use the custom URL if provided, otherwise fall back to the default URL
-      const downloadUrl = customUrl || photo.urls.full;
-      
-      // Fetch the image
-      const response = await fetch(downloadUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.status} ${response.statusText}`);
+      for await (const chunk of response.body as WebReadableStream<Uint8Array>) {
+        await file.write(chunk);
       }
+    } finally {
+      await file.close();
+    }
 
-      // Stream the image to a file
-      const fileStream = createWriteStream(filePath);
-      
-      if (response.body instanceof ReadableStream) {
-        // For environments with native fetch
-        const reader = response.body.getReader();
-        const readable = new Readable({
-          async read() {
-            const { done, value } = await reader.read();
-            if (done) {
-              this.push(null);
-            } else {
-              this.push(Buffer.from(value));
-            }
-          }
-        });
-        
-        readable.pipe(fileStream);
-        
-        return new Promise((resolve, reject) => {
-          fileStream.on('finish', () => resolve(filePath));
-          fileStream.on('error', reject);
-        });
-      } else {
-        // Fallback for other environments
-        const buffer = await response.arrayBuffer();
-        const nodeBuffer = Buffer.from(buffer);
-        return new Promise((resolve, reject) => {
-          fileStream.write(nodeBuffer, (err) => {
-            if (err) {
-              reject(err);
-            } else {
-              fileStream.end(() => {
-                resolve(filePath);
-              });
-            }
-          });
-        });
+    const { size } = await stat(tempPath);
+    if (expectedSize !== undefined && size !== expectedSize) {
+      if (size > expectedSize) {
+        await remove(tempPath);
       }
-    } catch (error) {
-      console.error(`Error downloading photo ${photo.id}:`, error);
-      throw error;
+      throw new Error(`Incomplete download: expected ${expectedSize} bytes, got ${size}`);
     }
+
+    return response.headers.get('content-type');
   }
 } 
\ No newline at end of file
@@ -17,18 +17,87 @@ export const LinksSchema = z.object({
   download_location: z.string().url()
 });
 
-// User structure
+// Profile image sizes
+export const ProfileImageSchema = z.object({
+  small: z.string().url(),
+  medium: z.string().url(),
+  large: z.string().url()
+});
+
+// User links structure
+export const UserLinksSchema = z.object({
+  self: z.string().url(),
+  html: z.string().url(),
+  photos: z.string().url(),
+  likes: z.string().url().optional(),
+  portfolio: z.string().url().optional()
+});
+
+// User structure (search results embed a subset; /users/:username returns the full profile)
 export const UserSchema = z.object({
   id: z.string(),
   username: z.string(),
   name: z.string().nullable(),
+  first_name: z.string().nullable().optional(),
+  last_name: z.string().nullable().optional(),
+  updated_at: z.string().datetime().optional(),
   portfolio_url: z.string().url().nullable().optional(),
   bio: z.string().nullable().optional(),
   location: z.string().nullable().optional(),
   instagram_username: z.string().nullable().optional(),
-  twitter_username: z.string().nullable().optional()
+  twitter_username: z.string().nullable().optional(),
+  total_photos: z.number().int().optional(),
+  total_likes: z.number().int().optional(),
+  total_collections: z.number().int().optional(),
+  followers_count: z.number().int().optional(),
+  downloads: z.number().int().optional(),
+  for_hire: z.boolean().optional(),
+  profile_image: ProfileImageSchema.optional(),
+  links: UserLinksSchema.optional()
 });
 
+// Tag structure (returned on photo details, not on search results)
+export const TagSchema = z.object({
+  type: z.string().optional(),
+  title: z.string()
+}).passthrough();
+
+// Camera EXIF structure
+export const ExifSchema = z.object({
+  make: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  name: z.string().nullable().optional(),
+  exposure_time: z.string().nullable().optional(),
+  aperture: z.string().nullable().optional(),
+  focal_length: z.string().nullable().optional(),
+  iso: z.number().nullable().optional()
+});
+
+// Location structure
+export const LocationSchema = z.object({
+  name: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
+  position: z.object({
+    latitude: z.number().nullable().optional(),
+    longitude: z.number().nullable().optional()
+  }).nullable().optional()
+});
+
+// Submission of a photo to a topic, keyed by topic slug
+export const TopicSubmissionSchema = z.object({
+  status: z.string(),
+  approved_on: z.string().optional()
+}).passthrough();
+
+// Sponsorship structure for promoted photos
+export const SponsorshipSchema = z.object({
+  impression_urls: z.array(z.string()).optional(),
+  tagline: z.string().nullable().optional(),
+  tagline_url: z.string().nullable().optional(),
+  sponsor: UserSchema.optional()
+}).passthrough();
+
 // Photo structure
 export const PhotoSchema = z.object({
   id: z.string(),
@@ -42,7 +111,61 @@ export const PhotoSchema = z.object({
   alt_description: z.string().nullable(),
   urls: UrlsSchema,
   links: LinksSchema,
-  user: UserSchema
+  user: UserSchema,
+  likes: z.number().int().optional(),
+  downloads: z.number().int().optional(),
+  views: z.number().int().optional(),
+  tags: z.array(TagSchema).optional(),
+  exif: ExifSchema.optional(),
+  location: LocationSchema.optional(),
+  topic_submissions: z.record(TopicSubmissionSchema).optional(),
+  sponsorship: SponsorshipSchema.nullable().optional(),
+  // Unsplash+ photos require a paid license
+  premium: z.boolean().nullable().optional()
+});
+
+// Cover photo of a collection or topic (a trimmed-down photo)
+export const CoverPhotoSchema = z.object({
+  id: z.string(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  urls: UrlsSchema
+}).passthrough();
+
+// Links of a collection or topic
+export const GroupLinksSchema = z.object({
+  self: z.string().url(),
+  html: z.string().url(),
+  photos: z.string().url()
+});
+
+// Collection structure
+export const CollectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  published_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+  total_photos: z.number().int(),
+  private: z.boolean().optional(),
+  cover_photo: CoverPhotoSchema.nullable().optional(),
+  user: UserSchema,
+  links: GroupLinksSchema
+});
+
+// Topic structure
+export const TopicSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  published_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+  featured: z.boolean().optional(),
+  total_photos: z.number().int(),
+  status: z.string().optional(),
+  cover_photo: CoverPhotoSchema.nullable().optional(),
+  links: GroupLinksSchema
 });
 
 // Search results structure
@@ -52,6 +175,92 @@ export const SearchResultsSchema = z.object({
   results: z.array(PhotoSchema)
 });
 
+// Native search filters supported by the /search/photos endpoint
+export const SearchOrientationSchema = z.enum(['landscape', 'portrait', 'squarish']);
+
+export const SearchColorSchema = z.enum([
+  'black_and_white', 'black', 'white', 'yellow', 'orange', 'red',
+  'purple', 'magenta', 'green', 'teal', 'blue'
+]);
+
+export const ContentFilterSchema = z.enum(['low', 'high']);
+
+export const SearchOrderBySchema = z.enum(['relevant', 'latest']);
+
+export const SearchPhotosOptionsSchema = z.object({
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().min(1).max(30).optional(),
+  orientation: SearchOrientationSchema.optional(),
+  color: SearchColorSchema.optional(),
+  contentFilter: ContentFilterSchema.optional(),
+  orderBy: SearchOrderBySchema.optional(),
+  collections: z.array(z.string()).optional()
+});
+
+// Options for the /photos/random endpoint
+export const RandomPhotoOptionsSchema = z.object({
+  query: z.string().optional(),
+  orientation: SearchOrientationSchema.optional(),
+  collections: z.array(z.string()).optional(),
+  contentFilter: ContentFilterSchema.optional(),
+  count: z.number().int().min(1).max(30).optional()
+});
+
+// Time series returned by the statistics endpoint
+export const StatisticsHistorySchema = z.object({
+  change: z.number(),
+  resolution: z.string(),
+  quantity: z.number().int(),
+  values: z.array(z.object({
+    date: z.string(),
+    value: z.number()
+  }))
+});
+
+export const StatisticsMetricSchema = z.object({
+  total: z.number(),
+  historical: StatisticsHistorySchema
+});
+
+// Photo statistics structure
+export const PhotoStatisticsSchema = z.object({
+  id: z.string(),
+  downloads: StatisticsMetricSchema,
+  views: StatisticsMetricSchema,
+  likes: StatisticsMetricSchema.optional()
+});
+
+// Collection search results structure
+export const CollectionSearchResultsSchema = z.object({
+  total: z.number().int(),
+  total_pages: z.number().int(),
+  results: z.array(CollectionSchema)
+});
+
+// Options for listing the photos of a collection or topic
+export const GroupPhotosOptionsSchema = z.object({
+  page: z.number().int().positive().optional(),
+  perPage: z.number().int().min(1).max(30).optional(),
+  orientation: SearchOrientationSchema.optional()
+});
+
+export const TopicOrderBySchema = z.enum(['featured', 'latest', 'oldest', 'position']);
+
+export const TopicPhotosOrderBySchema = z.enum(['latest', 'oldest', 'popular']);
+
+export const UserPhotosOrderBySchema = z.enum(['latest', 'oldest', 'popular', 'views', 'downloads']);
+
+// Output formats supported by the imgix fm parameter on Unsplash image URLs
+export const ImageFormatSchema = z.enum(['jpg', 'png', 'webp', 'avif']);
+
+// Resizing and encoding parameters applied to Unsplash image URLs
+export const ImageOptionsSchema = z.object({
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  format: ImageFormatSchema.optional(),
+  quality: z.number().int().min(1).max(100).optional()
+});
+
 // Download tracking response schema
 export const DownloadTrackingSchema = z.object({
   url: z.string().url()
@@ -62,5 +271,26 @@ export type Urls = z.infer<typeof UrlsSchema>;
 export type Links = z.infer<typeof LinksSchema>;
 export type User = z.infer<typeof UserSchema>;
 export type Photo = z.infer<typeof PhotoSchema>;
+export type Tag = z.infer<typeof TagSchema>;
+export type Exif = z.infer<typeof ExifSchema>;
+export type Location = z.infer<typeof LocationSchema>;
+export type Sponsorship = z.infer<typeof SponsorshipSchema>;
 export type SearchResults = z.infer<typeof SearchResultsSchema>;
-export type DownloadTracking = z.infer<typeof DownloadTrackingSchema>; 
\ No newline at end of file
+export type DownloadTracking = z.infer<typeof DownloadTrackingSchema>;
+export type ImageFormat = z.infer<typeof ImageFormatSchema>;
+export type ImageOptions = z.infer<typeof ImageOptionsSchema>;
+export type SearchOrientation = z.infer<typeof SearchOrientationSchema>;
+export type SearchColor = z.infer<typeof SearchColorSchema>;
+export type ContentFilter = z.infer<typeof ContentFilterSchema>;
+export type SearchOrderBy = z.infer<typeof SearchOrderBySchema>;
+export type SearchPhotosOptions = z.infer<typeof SearchPhotosOptionsSchema>;
+export type RandomPhotoOptions = z.infer<typeof RandomPhotoOptionsSchema>;
+export type StatisticsMetric = z.infer<typeof StatisticsMetricSchema>;
+export type PhotoStatistics = z.infer<typeof PhotoStatisticsSchema>;
+export type Collection = z.infer<typeof CollectionSchema>;
+export type Topic = z.infer<typeof TopicSchema>;
+export type CollectionSearchResults = z.infer<typeof CollectionSearchResultsSchema>;
+export type GroupPhotosOptions = z.infer<typeof GroupPhotosOptionsSchema>;
+export type TopicOrderBy = z.infer<typeof TopicOrderBySchema>;
+export type TopicPhotosOrderBy = z.infer<typeof TopicPhotosOrderBySchema>;
+export type UserPhotosOrderBy = z.infer<typeof UserPhotosOrderBySchema>; 
\ No newline at end of file